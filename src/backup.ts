@@ -1,8 +1,166 @@
-import { Context } from 'koishi'
+import { $, Context, executeQuery } from 'koishi'
 import { Config, logger } from './index'
-import { formatTimestamp, getTimestamp, parseJSONWithDates } from './utils'
-import fs from 'fs/promises'
-import path from 'path'
+import { FieldChange, SchemaMigrator, parseFieldMapping } from './migrator'
+import { BundledFile, collectFiles, createPathMatcher, restoreFiles, writeFiles } from './bundle'
+import { CronSchedule } from './schedule'
+import { BackupStorage, LocalStorage, createStorage } from './storage'
+import { DiffEntry, ProgressCallback, createProgress, diffObjects, formatAsTable, globToRegExp, formatSize, formatTimestamp, getFieldType, getPrimaryKeys, getTimestamp, parseJSONWithDates, parseTimestamp, readTableBatches } from './utils'
+import { createInterface } from 'readline'
+import { once } from 'events'
+import { PassThrough, Readable, Transform, Writable, pipeline as pipelineCallback } from 'stream'
+import { pipeline } from 'stream/promises'
+import { promisify } from 'util'
+import { createBrotliCompress, createBrotliDecompress, createGunzip, createGzip } from 'zlib'
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scrypt as _scrypt } from 'crypto'
+
+const { version } = require('../package.json')
+const scrypt = promisify(_scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+/** 单次定时器的最长等待时间，超过时分段等待 */
+const MAX_TIMER_DELAY = 24 * 60 * 60 * 1000
+
+/**
+ * 备份文件信息
+ */
+export interface BackupFileInfo {
+  size: number
+  sha256: string
+}
+
+/**
+ * 备份清单
+ */
+export interface BackupManifest {
+  /** 插件版本 */
+  version: string
+  timestamp: string
+  /** 每个表的行数、主键、备份时的字段定义与行过滤条件 */
+  tables: Record<string, { rows: number, primary: string[], fields: Record<string, any>, filter?: any }>
+  /** 每个数据文件的大小与 SHA-256 */
+  files: Record<string, BackupFileInfo>
+  /** 打包的文件（相对实例目录的路径 → 大小与修改时间） */
+  paths?: Record<string, BundledFile>
+}
+
+/**
+ * 备份信息
+ */
+export interface BackupInfo {
+  timestamp: string
+  /** 多文件备份中的表名 */
+  tables?: string[]
+  /** 属于该备份的数据文件 */
+  files: string[]
+  /** 打包文件的归档 */
+  archive?: string
+  /** 清单文件名 */
+  manifestFile?: string
+  manifest?: BackupManifest
+  /** 备份所在的存储 */
+  storage: BackupStorage
+}
+
+/**
+ * 恢复选项
+ */
+export interface RestoreOptions {
+  /** 指定要恢复的表 */
+  tables?: string[]
+  /** 恢复模式，默认为 upsert */
+  mode?: RestoreMode
+  /** 字段映射（表名 → 旧字段 → 新字段，`*` 适用于所有表） */
+  mapping?: Record<string, Record<string, string>>
+  /** 仅检查，不写入数据 */
+  dryRun?: boolean
+  onProgress?: ProgressCallback
+}
+
+/**
+ * 恢复模式
+ * - replace: 清空表后写入备份数据
+ * - upsert: 按主键合并，覆盖已有行
+ * - insert-only: 仅写入主键不存在的行
+ */
+export type RestoreMode = 'replace' | 'upsert' | 'insert-only'
+
+export const RESTORE_MODES: RestoreMode[] = ['replace', 'upsert', 'insert-only']
+
+/**
+ * 单个表的恢复统计
+ */
+export interface RestoreStats {
+  inserted: number
+  updated: number
+  removed: number
+  skipped: number
+}
+
+/**
+ * 恢复结果
+ */
+export interface RestoreResult {
+  /** 每个表恢复的行数 */
+  rows: Record<string, number>
+  /** 每个表的写入统计 */
+  stats: Record<string, RestoreStats>
+  /** 每个表的字段变化 */
+  changes: Record<string, FieldChange[]>
+  /** 恢复失败的文件及原因 */
+  failed: Record<string, string>
+}
+
+/**
+ * 备份与当前数据的差异（以备份为基准）
+ */
+export interface TableDiff {
+  /** 备份后新增的行数 */
+  added: number
+  /** 备份后删除的行数 */
+  removed: number
+  /** 备份后修改的行数 */
+  changed: number
+  unchanged: number
+  /** 各类差异的示例 */
+  samples: {
+    added: any[]
+    removed: any[]
+    changed: { key: string, diffs: DiffEntry[] }[]
+  }
+}
+
+/**
+ * 流式写入器
+ */
+interface BackupWriter {
+  write(chunk: string): Promise<void>
+  close(): Promise<BackupFileInfo>
+}
+
+/**
+ * 备份文件名：backup_<时间戳>[_<表名>].ndjson[.gz|.br][.enc]，旧版备份为 .json
+ * 分组依次为时间戳、表名、格式、压缩方式、是否加密
+ */
+const BACKUP_FILE_PATTERN = /^backup_(\d{8}_\d{6})(?:_(.+?))?\.(ndjson|json)(?:\.(gz|br))?(\.enc)?$/
+
+/** 文件归档名：backup_<时间戳>.files.ndjson[.gz|.br][.enc] */
+const ARCHIVE_FILE_PATTERN = /^backup_(\d{8}_\d{6})\.files\.ndjson(?:\.(gz|br))?(\.enc)?$/
+
+/** 文件名中的压缩与加密扩展名 */
+const FILE_SUFFIX_PATTERN = /(?:\.(gz|br))?(\.enc)?$/
+
+/** 清单文件名：backup_<时间戳>.manifest.json */
+const MANIFEST_FILE_PATTERN = /^backup_(\d{8}_\d{6})\.manifest\.json$/
+
+/** 加密文件头：魔数 + 版本，其后依次为 salt、iv，文件末尾为 GCM 认证标签 */
+const ENCRYPTION_MAGIC = Buffer.from('DTBK\x01', 'latin1')
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+const HEADER_LENGTH = ENCRYPTION_MAGIC.length + SALT_LENGTH + IV_LENGTH
+
+/** 过滤条件中相对时间的单位（毫秒） */
+const TIME_UNITS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000, w: 604800000 }
+const NUMBER_FIELD_TYPES = ['integer', 'unsigned', 'bigint', 'float', 'double', 'decimal']
 
 /**
  * 数据库备份服务类
@@ -10,8 +168,11 @@ import path from 'path'
  */
 export class BackupService {
   private ctx: Context
-  private backupTimer: NodeJS.Timeout = null
+  private backupTimers: NodeJS.Timeout[] = []
+  private backupRunning = new Set<BackupStorage>()
+  private disposed = false
   private config: Config
+  private storages = new Map<string, BackupStorage>()
 
   /**
    * 构造函数
@@ -20,136 +181,432 @@ export class BackupService {
    */
   constructor(ctx: Context, config: Config) {
     this.ctx = ctx
-    this.config = config
+    this.config = BackupService.migrateConfig(config)
+    this.storages.set('local', new LocalStorage('local', this.config.dir))
+    for (const storage of this.config.storages || []) {
+      this.storages.set(storage.name, createStorage(storage))
+    }
 
-    if (this.config.autoBackup && this.config.interval > 0) {
-      this.setupAutoBackup(this.config.interval)
+    if (this.config.autoBackup && this.config.schedules?.length) {
+      ctx.on('ready', () => this.setupAutoBackup())
     }
   }
 
+  /**
+   * 转换旧版的 interval 与 keepBackups 配置
+   * @param config - 插件配置
+   * @returns 转换后的配置
+   * @private
+   */
+  private static migrateConfig(config: Config): Config {
+    const result = { ...config }
+    if (config.interval !== undefined) {
+      const cron = CronSchedule.fromInterval(config.interval)
+      // 仅在未修改默认计划时替换，避免覆盖新配置
+      const isDefault = JSON.stringify(config.schedules) === JSON.stringify([{ cron: '03:00 daily', storage: 'local' }])
+      if (isDefault) result.schedules = [{ cron, storage: 'local' }]
+      logger.warn(`配置项 interval 已废弃，请改用 schedules${isDefault ? `（已按 "${cron}" 执行）` : '（已忽略）'}`)
+    }
+    if (config.keepBackups !== undefined) {
+      // 旧版保留最新的若干份，按天保留最接近；0 仍表示不清理
+      result.keepDaily = config.keepBackups
+      result.keepWeekly = result.keepMonthly = 0
+      logger.warn(`配置项 keepBackups 已废弃，请改用 keepDaily/keepWeekly/keepMonthly（已按 keepDaily: ${config.keepBackups} 执行）`)
+    }
+    return result
+  }
+
   /**
    * 清理资源（停止定时任务）
    */
   dispose(): void {
-    if (this.backupTimer) {
-      clearInterval(this.backupTimer)
-      this.backupTimer = null
+    this.disposed = true
+    if (this.backupTimers.length) {
+      this.backupTimers.forEach(timer => clearTimeout(timer))
+      this.backupTimers = []
       logger.info('已停止定时备份')
     }
   }
 
   /**
-   * 确保备份目录存在
+   * 获取存储
+   * @param name - 存储名称，为空时使用本地备份目录
+   * @returns 备份存储
+   * @private
+   */
+  private getStorage(name?: string): BackupStorage {
+    const storage = this.storages.get(name || 'local')
+    if (!storage) throw new Error(`未知的存储: ${name}`)
+    return storage
+  }
+
+  /**
+   * 设置定时备份
+   * 启动时若存储中尚无备份，或最新备份之后错过了计划时间，立即补做一次备份
+   * @private
+   */
+  private async setupAutoBackup(): Promise<void> {
+    const schedules: [CronSchedule, BackupStorage][] = []
+    for (const { cron, storage: name } of this.config.schedules) {
+      try {
+        const schedule = new CronSchedule(cron)
+        const storage = this.getStorage(name)
+        const next = schedule.next(new Date())
+        logger.info(`已启用定时备份（${cron} → ${storage.name}，下次 ${next.toLocaleString()}）`)
+        this.armSchedule(schedules.length, schedule, storage, next)
+        schedules.push([schedule, storage])
+      } catch (e) {
+        logger.warn(`忽略定时备份计划 "${cron}": ${e.message}`)
+      }
+    }
+
+    const missed = new Set<BackupStorage>()
+    for (const [schedule, storage] of schedules) {
+      try {
+        const [latest] = await this.listBackups(storage)
+        if (!latest || schedule.next(parseTimestamp(latest.timestamp)).getTime() <= Date.now()) missed.add(storage)
+      } catch (e) {
+        logger.error(`检查错过的定时备份失败: ${storage.name} (${e.message})`)
+      }
+    }
+    for (const storage of missed) {
+      logger.info(`存储 ${storage.name} 错过了定时备份，立即补做`)
+      await this.runAutoBackup(storage)
+    }
+  }
+
+  /**
+   * 设置计划的下次执行
+   * 等待时间超过定时器上限时分段等待
+   * @param index - 计划序号
+   * @param schedule - 定时计划
+   * @param storage - 备份存储
+   * @param target - 执行时间
+   * @private
+   */
+  private armSchedule(index: number, schedule: CronSchedule, storage: BackupStorage, target: Date): void {
+    if (this.disposed) return
+    const delay = Math.min(Math.max(target.getTime() - Date.now(), 0), MAX_TIMER_DELAY)
+    this.backupTimers[index] = setTimeout(async () => {
+      if (Date.now() < target.getTime() - 1000) return this.armSchedule(index, schedule, storage, target)
+      await this.runAutoBackup(storage)
+      this.armSchedule(index, schedule, storage, schedule.next(new Date()))
+    }, delay)
+  }
+
+  /**
+   * 执行定时备份并清理旧备份
+   * 同一存储上一次备份尚未完成时跳过
+   * @param storage - 备份存储
    * @private
    */
-  private async ensureBackupDir(): Promise<void> {
+  private async runAutoBackup(storage: BackupStorage): Promise<void> {
+    if (this.backupRunning.has(storage)) {
+      logger.info(`存储 ${storage.name} 上一次备份尚未完成，跳过本次定时备份`)
+      return
+    }
+    this.backupRunning.add(storage)
+    logger.info(`执行定时备份 (${storage.name})...`)
+
     try {
-      await fs.mkdir(this.config.dir, { recursive: true })
-    } catch (error) {
-      if (error.code !== 'EEXIST') {
-        throw error;
+      const timestamp = getTimestamp()
+      const tables = await this.getTablesForBackup()
+
+      if (tables.length === 0) {
+        logger.info('无可备份的表')
+        return
       }
+
+      const result = await this.backupTables(storage, tables, timestamp, this.config.includePaths);
+      await this.cleanupOldBackups(storage)
+      logger.info(result)
+    } catch (e) {
+      logger.error(`定时备份失败: ${e.message}`)
+    } finally {
+      this.backupRunning.delete(storage)
     }
   }
 
   /**
-   * 设置定时备份
-   * @param intervalHours - 备份间隔（小时）
+   * 生成备份文件名，按配置附加压缩与加密扩展名
+   * @param timestamp - 时间戳
+   * @param table - 表名（单文件备份为空）
+   * @returns 文件名
    * @private
    */
-  private setupAutoBackup(intervalHours: number): void {
-    this.backupTimer && clearInterval(this.backupTimer)
-    const interval = intervalHours * 60 * 60 * 1000
-    logger.info(`已启用定时备份（${intervalHours} 小时）`)
+  private getBackupFileName(timestamp: string, table?: string): string {
+    return `backup_${timestamp}${table ? `_${table}` : ''}.ndjson${this.getFileSuffix()}`
+  }
 
-    this.backupTimer = setInterval(async () => {
-      logger.info('执行定时备份...')
+  /**
+   * 生成文件归档名
+   * @param timestamp - 时间戳
+   * @returns 文件名
+   * @private
+   */
+  private getArchiveFileName(timestamp: string): string {
+    return `backup_${timestamp}.files.ndjson${this.getFileSuffix()}`
+  }
 
-      try {
-        await this.ensureBackupDir()
-        const timestamp = getTimestamp()
-        const tables = await this.getTablesForBackup()
+  /**
+   * 按配置生成压缩与加密扩展名
+   * @returns 扩展名
+   * @private
+   */
+  private getFileSuffix(): string {
+    const compression = this.config.compression === 'gzip' ? '.gz' : this.config.compression === 'brotli' ? '.br' : ''
+    const encryption = this.config.passphrase ? '.enc' : ''
+    return compression + encryption
+  }
 
-        if (tables.length === 0) {
-          logger.info('无可备份的表')
-          return
-        }
+  /**
+   * 打开备份文件写入器
+   * 数据依次经过压缩、加密后写入文件
+   * @param storage - 备份存储
+   * @param fileName - 文件名
+   * @returns 写入器
+   * @private
+   */
+  private async openWriter(storage: BackupStorage, fileName: string): Promise<BackupWriter> {
+    const [, compression, encrypted] = fileName.match(FILE_SUFFIX_PATTERN)
+    const streams: (Transform | Writable)[] = [new PassThrough()]
+    if (compression === 'gz') streams.push(createGzip())
+    else if (compression === 'br') streams.push(createBrotliCompress())
+    if (encrypted) {
+      const salt = randomBytes(SALT_LENGTH)
+      const iv = randomBytes(IV_LENGTH)
+      const cipher = createCipheriv('aes-256-gcm', await scrypt(this.config.passphrase, salt, 32), iv)
+      const header = Buffer.concat([ENCRYPTION_MAGIC, salt, iv])
+      streams.push(cipher, new Transform({
+        construct(callback) {
+          this.push(header)
+          callback()
+        },
+        transform(chunk, encoding, callback) {
+          callback(null, chunk)
+        },
+        flush(callback) {
+          callback(null, cipher.getAuthTag())
+        },
+      }))
+    }
+    const hash = createHash('sha256')
+    let size = 0
+    streams.push(new Transform({
+      transform(chunk, encoding, callback) {
+        hash.update(chunk)
+        size += chunk.length
+        callback(null, chunk)
+      },
+    }), await storage.write(fileName))
 
-        const result = await this.backupTables(tables, timestamp);
+    const [input] = streams
+    let error: Error
+    const done = pipeline(streams as any).catch(e => { error = e })
+    return {
+      write: async (chunk) => {
+        if (error) throw error
+        if (!input.write(chunk)) await once(input, 'drain')
+      },
+      close: async () => {
+        input.end()
+        await done
+        if (error) throw error
+        return { size, sha256: hash.digest('hex') }
+      },
+    }
+  }
 
-        if (this.config.keepBackups > 0) {
-          await this.cleanupOldBackups(this.config.keepBackups)
-        }
+  /**
+   * 打开备份文件读取流，按扩展名依次解密、解压
+   * @param storage - 备份存储
+   * @param fileName - 文件名
+   * @returns 原始内容的可读流
+   * @private
+   */
+  private async openReader(storage: BackupStorage, fileName: string): Promise<Readable> {
+    const [, compression, encrypted] = fileName.match(FILE_SUFFIX_PATTERN)
+    const streams: (Readable | Transform)[] = []
+    if (encrypted) {
+      if (!this.config.passphrase) throw new Error('备份已加密，请配置 passphrase')
+      const size = await storage.size(fileName)
+      if (size < HEADER_LENGTH + TAG_LENGTH) throw new Error('加密备份文件不完整')
+      const header = await storage.readFile(fileName, { start: 0, end: HEADER_LENGTH - 1 })
+      const tag = await storage.readFile(fileName, { start: size - TAG_LENGTH, end: size - 1 })
+      if (!header.subarray(0, ENCRYPTION_MAGIC.length).equals(ENCRYPTION_MAGIC)) throw new Error('无法识别的加密备份格式')
+      const salt = header.subarray(ENCRYPTION_MAGIC.length, ENCRYPTION_MAGIC.length + SALT_LENGTH)
+      const iv = header.subarray(ENCRYPTION_MAGIC.length + SALT_LENGTH)
+      const decipher = createDecipheriv('aes-256-gcm', await scrypt(this.config.passphrase, salt, 32), iv)
+      decipher.setAuthTag(tag)
+      const body = size > HEADER_LENGTH + TAG_LENGTH
+        ? await storage.read(fileName, { start: HEADER_LENGTH, end: size - TAG_LENGTH - 1 })
+        : Readable.from([])
+      streams.push(body, decipher)
+    } else {
+      streams.push(await storage.read(fileName))
+    }
+    if (compression === 'gz') streams.push(createGunzip())
+    else if (compression === 'br') streams.push(createBrotliDecompress())
+    if (streams.length === 1) return streams[0]
+    // 出错时 pipeline 会销毁所有流，错误由最后一个流抛出
+    return pipelineCallback(streams as any, () => {}) as unknown as Readable
+  }
 
-        logger.info(result)
-      } catch (e) {
-        logger.error(`定时备份失败: ${e.message}`)
-      }
-    }, interval)
+  /**
+   * 将表数据以 NDJSON 写入
+   * @param writer - 写入器
+   * @param table - 表名
+   * @param filter - 行过滤条件
+   * @param onProgress - 进度回调
+   * @returns 写入的行数
+   * @private
+   */
+  private async writeTable(writer: BackupWriter, table: string, filter: any, onProgress?: ProgressCallback): Promise<number> {
+    const binaryFields = Object.entries<any>(this.ctx.model.tables[table]?.fields || {})
+      .filter(([, field]) => getFieldType(field) === 'binary')
+      .map(([name]) => name)
+    let count = 0
+    for await (const rows of readTableBatches(this.ctx, table, this.config.batchSize, filter)) {
+      await writer.write(rows.map(row => JSON.stringify(encodeBinary(row, binaryFields)) + '\n').join(''))
+      count += rows.length
+      onProgress?.(table, count)
+    }
+    return count
   }
 
   /**
    * 执行备份表数据操作
+   * @param storage - 备份存储
    * @param tables - 要备份的表列表
    * @param timestamp - 时间戳标识
+   * @param paths - 同时打包的文件路径模式
+   * @param onProgress - 进度回调
    * @returns 备份结果消息
    * @private
    */
-  private async backupTables(tables: string[], timestamp: string): Promise<string> {
-    if (this.config.singleFile) {
-      // 单文件备份
-      const allData: Record<string, any[]> = {}
-      let successCount = 0
-      let failedTables: string[] = []
+  private async backupTables(storage: BackupStorage, tables: string[], timestamp: string, paths: string[] = [], onProgress?: ProgressCallback): Promise<string> {
+    let totalRows = 0
+    const failedTables: string[] = []
+    const manifest: BackupManifest = { version, timestamp, tables: {}, files: {} }
+    const now = parseTimestamp(timestamp)
+    const filters = Object.fromEntries(tables.map(table => [table, this.getRowFilter(table)]))
+    const resolve = (table: string) => resolveRelativeTime(filters[table] || {}, this.ctx.model.tables[table]?.fields, now)
+    const addTable = (table: string, rows: number) => {
+      manifest.tables[table] = { rows, primary: getPrimaryKeys(this.ctx, table), fields: this.snapshotFields(table) }
+      if (filters[table]) manifest.tables[table].filter = filters[table]
+      totalRows += rows
+    }
 
-      for (const table of tables) {
-        try {
-          const rows = await this.ctx.database.get(table as any, {})
-          allData[table] = rows
-          successCount++
-        } catch (e) {
-          failedTables.push(table)
-          logger.warn(`备份表失败: ${table} (${e.message})`)
+    if (this.config.singleFile) {
+      // 单文件备份，每个表以 {"$table": 表名} 行开头
+      // 已写入的部分行无法从流中撤回，任一表失败即放弃整个文件
+      const fileName = this.getBackupFileName(timestamp)
+      const writer = await this.openWriter(storage, fileName)
+      try {
+        for (const table of tables) {
+          try {
+            await writer.write(JSON.stringify({ $table: table }) + '\n')
+            addTable(table, await this.writeTable(writer, table, resolve(table), onProgress))
+          } catch (e) {
+            throw new Error(`备份表失败: ${table} (${e.message})`)
+          }
         }
+        manifest.files[fileName] = await writer.close()
+      } catch (e) {
+        await writer.close().catch(() => {})
+        await storage.remove(fileName).catch(() => {})
+        throw e
       }
-
-      const fileName = `backup_${timestamp}.json`
-      const filePath = path.join(this.config.dir, fileName)
-      await fs.writeFile(filePath, JSON.stringify(allData, null, 2))
-
-      let result = `备份完成 (${successCount}/${tables.length}) ${timestamp}`
-      if (failedTables.length > 0) {
-        result += `\n未成功: ${failedTables.join(', ')}`
-      }
-      return result
     } else {
       // 多文件备份
-      const successFiles: string[] = []
-      const failedTables: string[] = []
-
       for (const table of tables) {
+        const fileName = this.getBackupFileName(timestamp, table)
         try {
-          const rows = await this.ctx.database.get(table as any, {})
-          const fileName = `backup_${timestamp}_${table}.json`
-          const filePath = path.join(this.config.dir, fileName)
-          await fs.writeFile(filePath, JSON.stringify(rows, null, 2))
-          successFiles.push(fileName)
+          const writer = await this.openWriter(storage, fileName)
+          let rows: number
+          try {
+            rows = await this.writeTable(writer, table, resolve(table), onProgress)
+          } finally {
+            manifest.files[fileName] = await writer.close()
+          }
+          addTable(table, rows)
         } catch (e) {
           failedTables.push(table)
+          delete manifest.files[fileName]
           logger.warn(`备份表失败: ${table} (${e.message})`)
+          await storage.remove(fileName).catch(() => {})
         }
       }
+    }
 
-      let result = `备份完成 (${successFiles.length}/${tables.length}) ${timestamp}`
-      if (failedTables.length > 0) {
-        result += `\n未成功: ${failedTables.join(', ')}`
+    let filesError: string
+    if (paths.length) {
+      // 文件打包为单独的归档，备份目录本身不打包
+      const fileName = this.getArchiveFileName(timestamp)
+      try {
+        const files = await collectFiles(process.cwd(), paths, [this.config.dir])
+        if (files.length) {
+          const writer = await this.openWriter(storage, fileName)
+          try {
+            manifest.paths = await writeFiles(process.cwd(), files, chunk => writer.write(chunk))
+          } finally {
+            manifest.files[fileName] = await writer.close()
+          }
+        }
+      } catch (e) {
+        filesError = e.message
+        delete manifest.paths
+        delete manifest.files[fileName]
+        logger.warn(`备份文件失败: ${e.message}`)
+        await storage.remove(fileName).catch(() => {})
       }
-      return result
     }
+
+    await storage.writeFile(`backup_${timestamp}.manifest.json`, JSON.stringify(manifest, null, 2))
+
+    let result = `备份完成 (${Object.keys(manifest.tables).length}/${tables.length}) ${timestamp}，共 ${totalRows} 行`
+    if (manifest.paths) {
+      const size = Object.values(manifest.paths).reduce((sum, info) => sum + info.size, 0)
+      result += `，文件 ${Object.keys(manifest.paths).length} 个 (${formatSize(size)})`
+    }
+    if (storage.name !== 'local') result += `，已保存到 ${storage.name}`
+    const filteredTables = Object.keys(manifest.tables).filter(table => manifest.tables[table].filter)
+    if (filteredTables.length > 0) {
+      result += `\n按条件过滤: ${filteredTables.join(', ')}`
+    }
+    if (failedTables.length > 0) {
+      result += `\n未成功: ${failedTables.join(', ')}`
+    }
+    if (filesError) {
+      result += `\n文件备份失败: ${filesError}`
+    }
+    return result
+  }
+
+  /**
+   * 获取表当前的字段定义快照
+   * @param table - 表名
+   * @returns 可序列化的字段定义
+   * @private
+   */
+  private snapshotFields(table: string): Record<string, any> {
+    const fields = this.ctx.model.tables[table]?.fields || {}
+    const result: Record<string, any> = {}
+    for (const [name, field] of Object.entries<any>(fields)) {
+      if (!field || field.deprecated) continue
+      const snapshot: Record<string, any> = { type: getFieldType(field) }
+      for (const key of ['length', 'precision', 'scale', 'nullable', 'initial']) {
+        const value = field[key]
+        if (value !== undefined && typeof value !== 'function') snapshot[key] = value
+      }
+      result[name] = snapshot
+    }
+    return result
   }
 
   /**
    * 获取需要备份的表列表
+   * 没有模型定义的表（如驱动内部的 `_fields`）无法读取，会被跳过
    * @param specificTables - 指定要备份的表
    * @returns 需要备份的表列表
    * @private
@@ -157,12 +614,16 @@ export class BackupService {
   private async getTablesForBackup(specificTables?: string[]): Promise<string[]> {
     try {
       const dbStats = await this.ctx.database.stats()
-      const existingTables = Object.keys(dbStats.tables || {})
+      const existingTables = Object.keys(dbStats.tables || {}).filter(table => {
+        const modelled = !!this.ctx.model.tables[table]
+        !modelled && logger.debug(`表无模型定义，已跳过: ${table}`)
+        return modelled
+      })
 
       if (specificTables?.length) {
         return specificTables.filter(table => {
           const exists = existingTables.some(t => t.toLowerCase() === table.toLowerCase())
-          !exists && logger.warn(`表不存在: ${table}`)
+          !exists && logger.warn(`表不存在或无模型定义: ${table}`)
           return exists
         })
       }
@@ -173,118 +634,528 @@ export class BackupService {
         for (const customTable of this.config.tables) {
           const matchedTable = existingTables.find(t =>
             t.toLowerCase() === customTable.toLowerCase())
-          matchedTable ? allTables.add(matchedTable) : allTables.add(customTable)
+          if (matchedTable) allTables.add(matchedTable)
+          else if (this.ctx.model.tables[customTable]) allTables.add(customTable)
         }
       }
 
-      return Array.from(allTables)
+      const include = (this.config.includeTables || []).map(pattern => globToRegExp(pattern, 'i'))
+      const exclude = (this.config.excludeTables || []).map(pattern => globToRegExp(pattern, 'i'))
+      return Array.from(allTables).filter(table =>
+        (!include.length || include.some(pattern => pattern.test(table)))
+        && !exclude.some(pattern => pattern.test(table)))
     } catch (e) {
       throw new Error(`获取表失败: ${e.message}`)
     }
   }
 
   /**
-   * 执行备份恢复
+   * 获取配置中表的行过滤条件
+   * 多条规则匹配同一个表时需同时满足
+   * @param table - 表名
+   * @returns 未解析相对时间的过滤条件，没有规则时返回undefined
+   * @private
+   */
+  private getRowFilter(table: string): any {
+    const filters = (this.config.rowFilters || [])
+      .filter(rule => globToRegExp(rule.table, 'i').test(table))
+      .map(rule => {
+        try {
+          return JSON.parse(rule.filter)
+        } catch (e) {
+          throw new Error(`无效的行过滤条件 (${rule.table}): ${e.message}`)
+        }
+      })
+    if (!filters.length) return
+    return filters.length === 1 ? filters[0] : { $and: filters }
+  }
+
+  /**
+   * 获取备份中表的行过滤条件，相对时间按备份时间解析
    * @param backup - 备份信息
-   * @param backup.timestamp - 备份时间戳
-   * @param backup.tables - 备份的表列表
-   * @param tableNames - 指定要恢复的表
-   * @returns 恢复的表列表
+   * @param table - 表名
+   * @returns 过滤条件，完整备份的表为空对象
    * @private
    */
-  private async restoreBackup(backup: {timestamp: string, tables?: string[]}, tableNames?: string[]): Promise<string[]> {
-    const timestamp = backup.timestamp
+  private getBackupFilter(backup: BackupInfo, table: string): any {
+    const filter = backup.manifest?.tables[table]?.filter
+    if (!filter) return {}
+    return resolveRelativeTime(filter, this.ctx.model.tables[table]?.fields, parseTimestamp(backup.timestamp))
+  }
 
-    if (this.config.singleFile) {
-      const filePath = path.join(this.config.dir, `backup_${timestamp}.json`)
-      try {
-        const content = await fs.readFile(filePath, 'utf-8')
-        const allData = parseJSONWithDates(content)
+  /**
+   * 逐行读取备份文件
+   * 旧版 JSON 备份会被转换为与 NDJSON 相同的行序列
+   * @param storage - 备份存储
+   * @param fileName - 文件名
+   * @returns 表头行（{"$table": 表名}）或数据行
+   * @private
+   */
+  private async *readBackupFile(storage: BackupStorage, fileName: string): AsyncGenerator<any> {
+    const input = await this.openReader(storage, fileName)
+    try {
+      if (fileName.match(BACKUP_FILE_PATTERN)?.[3] === 'json') {
+        const chunks: Buffer[] = []
+        for await (const chunk of input) chunks.push(chunk)
+        const data = parseJSONWithDates(Buffer.concat(chunks).toString('utf-8'))
+        if (Array.isArray(data)) {
+          yield* data
+          return
+        }
+        for (const [table, rows] of Object.entries(data || {})) {
+          if (!Array.isArray(rows)) continue
+          yield { $table: table }
+          yield* rows
+        }
+        return
+      }
+      const lines = createInterface({ input, crlfDelay: Infinity })
+      for await (const line of lines) {
+        if (line.trim()) yield parseJSONWithDates(line)
+      }
+    } finally {
+      // 提前结束读取时关闭文件或连接，管道中的其他流随之销毁
+      input.destroy()
+    }
+  }
+
+  /**
+   * 读取备份中指定表的所有行
+   * @param backup - 备份信息
+   * @param table - 表名
+   * @returns 数据行
+   * @private
+   */
+  private async *readTableRows(backup: BackupInfo, table: string): AsyncGenerator<any> {
+    for (const fileName of backup.files) {
+      const fileTable = fileName.match(BACKUP_FILE_PATTERN)?.[2]
+      if (fileTable && fileTable !== table) continue
+      let current = fileTable
+      for await (const item of this.readBackupFile(backup.storage, fileName)) {
+        if (typeof item?.$table === 'string') {
+          // 单文件备份中各表连续存放，读完目标表即可结束
+          if (current === table) return
+          current = item.$table
+        } else if (current === table) {
+          yield item
+        }
+      }
+    }
+  }
 
-        if (tableNames?.length) {
-          // 从单文件恢复特定表
-          const restoredTables: string[] = []
+  /**
+   * 检查备份是否包含指定表
+   * @param backup - 备份信息
+   * @param table - 表名
+   * @returns 是否包含
+   * @private
+   */
+  private hasTable(backup: BackupInfo, table: string): boolean {
+    if (backup.manifest) return table in backup.manifest.tables
+    // 无清单的单文件备份无法在不读取内容时确定
+    return !backup.tables || backup.tables.includes(table)
+  }
 
-          for (const tableName of tableNames) {
-            if (!allData[tableName] || !Array.isArray(allData[tableName])) {
-              continue
-            }
+  /**
+   * 按序号选择备份
+   * @param backups - 备份列表
+   * @param index - 从 1 开始的序号
+   * @returns 备份信息，序号无效时返回undefined
+   * @private
+   */
+  private selectBackup(backups: BackupInfo[], index: string): BackupInfo | undefined {
+    const backupIndex = parseInt(index) - 1
+    if (isNaN(backupIndex) || backupIndex < 0 || backupIndex >= backups.length) return
+    return backups[backupIndex]
+  }
 
-            const data = allData[tableName]
-            if (data.length > 0) {
-              await this.ctx.database.upsert(tableName as any, data)
-              restoredTables.push(tableName)
-            }
-          }
-          return restoredTables
+  /**
+   * 分批恢复单个备份文件
+   * 每个表的数据按当前模型迁移后，按恢复模式写入
+   * @param backup - 备份信息
+   * @param fileName - 文件名
+   * @param table - 文件对应的表名（单文件备份为空）
+   * @param options - 恢复选项
+   * @param result - 累计的恢复结果
+   * @param database - 写入使用的数据库（replace 模式下为事务）
+   * @private
+   */
+  private async restoreFile(backup: BackupInfo, fileName: string, table: string | undefined, options: RestoreOptions, result: RestoreResult, database: Context['database'] = this.ctx.database): Promise<void> {
+    const mode = options.mode || 'upsert'
+    const migrators: Record<string, SchemaMigrator> = {}
+    let current: string
+    let batch: any[] = []
+    // 清单中未记录的表（备份时失败）可能只有部分行，不予恢复
+    const isSelected = (name: string) => name && !(options.tables?.length && !options.tables.includes(name))
+      && !(backup.manifest && !(name in backup.manifest.tables))
+    const begin = async (name: string) => {
+      current = name
+      if (!isSelected(name)) return
+      result.rows[name] ??= 0
+      const stats = result.stats[name] ??= { inserted: 0, updated: 0, removed: 0, skipped: 0 }
+      // replace 模式先记录现有行数，实际恢复时清空表（按条件备份的表只清空符合条件的行）
+      if (mode === 'replace' && this.ctx.model.tables[name]) {
+        const filter = this.getBackupFilter(backup, name)
+        stats.removed += await this.countRows(database, name, filter)
+        if (!options.dryRun) await database.remove(name as any, filter)
+      }
+    }
+    const flush = async () => {
+      if (!batch.length) return
+      const stats = result.stats[current]
+      if (options.dryRun || mode === 'insert-only') {
+        const existing = await this.findExisting(database, current, batch)
+        const rows = existing.size ? batch.filter(row => !existing.has(this.getRowKey(current, row))) : batch
+        const matched = batch.length - rows.length
+        if (mode === 'insert-only') {
+          stats.skipped += matched
+          stats.inserted += rows.length
+          if (!options.dryRun && rows.length) await database.upsert(current as any, rows)
         } else {
-          // 从单文件恢复所有表
-          const restoredTables: string[] = []
-          for (const [table, data] of Object.entries(allData)) {
-            if (Array.isArray(data) && data.length > 0) {
-              await this.ctx.database.upsert(table as any, data)
-              restoredTables.push(table)
-            }
-          }
-          return restoredTables
+          stats.updated += matched
+          stats.inserted += rows.length
         }
-      } catch (e) {
-        logger.error(`恢复失败: ${e.message}`)
-        return []
+      } else if (mode === 'replace') {
+        await database.upsert(current as any, batch)
+        stats.inserted += batch.length
+      } else {
+        const written = await database.upsert(current as any, batch)
+        stats.inserted += written?.inserted ?? 0
+        stats.updated += written?.matched ?? 0
       }
-    } else {
-      // 多文件模式恢复
-      const files = await fs.readdir(this.config.dir)
-      const restoredTables: string[] = []
-
-      if (tableNames?.length) {
-        // 恢复特定表
-        for (const tableName of tableNames) {
-          const targetFile = files.find(file => file === `backup_${timestamp}_${tableName}.json`)
-          if (!targetFile) {
-            continue
-          }
+      result.rows[current] += batch.length
+      options.onProgress?.(current, result.rows[current])
+      batch = []
+    }
 
-          try {
-            const filePath = path.join(this.config.dir, targetFile)
-            const content = await fs.readFile(filePath, 'utf-8')
-            const data = parseJSONWithDates(content)
+    try {
+      if (table) await begin(table)
+      for await (const item of this.readBackupFile(backup.storage, fileName)) {
+        if (typeof item?.$table === 'string') {
+          await flush()
+          await begin(item.$table)
+          continue
+        }
+        if (!isSelected(current)) continue
+        migrators[current] ??= this.createMigrator(current, backup.manifest, options.mapping, item)
+        batch.push(migrators[current].migrate(item))
+        if (batch.length >= this.config.batchSize) await flush()
+      }
+      await flush()
+    } finally {
+      for (const [name, migrator] of Object.entries(migrators)) {
+        result.changes[name] = migrator.getChanges()
+      }
+    }
+  }
 
-            if (Array.isArray(data) && data.length > 0) {
-              await this.ctx.database.upsert(tableName as any, data)
-              restoredTables.push(tableName)
-            }
-          } catch (e) {
-            logger.warn(`恢复表 ${tableName} 失败: ${e.message}`)
-          }
+  /**
+   * 统计表的行数
+   * @param database - 数据库
+   * @param table - 表名
+   * @param filter - 过滤条件
+   * @returns 行数
+   * @private
+   */
+  private async countRows(database: Context['database'], table: string, filter: any = {}): Promise<number> {
+    const [key] = getPrimaryKeys(this.ctx, table)
+    return database.eval(table as any, row => $.length(row[key]), filter)
+  }
+
+  /**
+   * 获取行的主键标识
+   * @param table - 表名
+   * @param row - 行数据
+   * @returns 主键值序列化后的字符串
+   * @private
+   */
+  private getRowKey(table: string, row: any): string {
+    return JSON.stringify(getPrimaryKeys(this.ctx, table).map(key => row[key]))
+  }
+
+  /**
+   * 按主键查找一批行在数据库中对应的行
+   * @param database - 数据库
+   * @param table - 表名
+   * @param rows - 待查找的行
+   * @param fields - 返回的字段，默认为全部
+   * @returns 数据库中已存在的行
+   * @private
+   */
+  private async findRows(database: Context['database'], table: string, rows: any[], fields?: string[]): Promise<any[]> {
+    const keys = getPrimaryKeys(this.ctx, table)
+    if (!keys.length || !rows.length) return []
+    const query = keys.length === 1
+      ? { [keys[0]]: { $in: rows.map(row => row[keys[0]]) } }
+      : { $or: rows.map(row => Object.fromEntries(keys.map(key => [key, row[key]]))) }
+    return database.get(table as any, query as any, fields as any)
+  }
+
+  /**
+   * 查找一批行中主键已存在的行
+   * @param database - 数据库
+   * @param table - 表名
+   * @param rows - 待写入的行
+   * @returns 已存在行的主键标识
+   * @private
+   */
+  private async findExisting(database: Context['database'], table: string, rows: any[]): Promise<Set<string>> {
+    const existing = await this.findRows(database, table, rows, getPrimaryKeys(this.ctx, table))
+    return new Set(existing.map(row => this.getRowKey(table, row)))
+  }
+
+  /**
+   * 按主键比较备份中的表与当前数据
+   * 备份行先按当前模型迁移，只比较备份中存在的字段；按条件备份的表只统计符合条件的新增行
+   * @param backup - 备份信息
+   * @param table - 表名
+   * @param sampleSize - 每类差异保留的示例数
+   * @returns 表差异
+   * @private
+   */
+  private async diffTable(backup: BackupInfo, table: string, sampleSize: number): Promise<TableDiff> {
+    const result: TableDiff = { added: 0, removed: 0, changed: 0, unchanged: 0, samples: { added: [], removed: [], changed: [] } }
+    const keys = getPrimaryKeys(this.ctx, table)
+    const describe = (row: any) => keys.map(key => `${key}=${JSON.stringify(row[key])}`).join(',')
+    const seen = new Set<string>()
+    let migrator: SchemaMigrator
+    let batch: any[] = []
+    const flush = async () => {
+      const live = new Map((await this.findRows(this.ctx.database, table, batch)).map(row => [this.getRowKey(table, row), row]))
+      for (const row of batch) {
+        const key = this.getRowKey(table, row)
+        seen.add(key)
+        const current = live.get(key)
+        if (!current) {
+          result.removed++
+          if (result.samples.removed.length < sampleSize) result.samples.removed.push(row)
+          continue
         }
-        return restoredTables
-      } else {
-        // 恢复所有表
-        const pattern = new RegExp(`^backup_${timestamp}_(.+)\\.json$`)
-        const backupFiles = files.filter(file => file.match(pattern))
+        const diffs = diffObjects(row, Object.fromEntries(Object.keys(row).map(field => [field, current[field]])))
+        if (!diffs.length) {
+          result.unchanged++
+          continue
+        }
+        result.changed++
+        if (result.samples.changed.length < sampleSize) result.samples.changed.push({ key: describe(row), diffs })
+      }
+      batch = []
+    }
 
-        for (const fileName of backupFiles) {
-          try {
-            const match = fileName.match(/^backup_\d+_(.+)\.json$/)
-            if (!match) continue
+    for await (const row of this.readTableRows(backup, table)) {
+      migrator ??= this.createMigrator(table, backup.manifest, {}, row)
+      batch.push(migrator.migrate(row))
+      if (batch.length >= this.config.batchSize) await flush()
+    }
+    await flush()
 
-            const tableName = match[1]
-            const filePath = path.join(this.config.dir, fileName)
-            const content = await fs.readFile(filePath, 'utf-8')
-            const data = parseJSONWithDates(content)
+    for await (const rows of readTableBatches(this.ctx, table, this.config.batchSize, this.getBackupFilter(backup, table))) {
+      for (const row of rows) {
+        if (seen.has(this.getRowKey(table, row))) continue
+        result.added++
+        if (result.samples.added.length < sampleSize) result.samples.added.push(row)
+      }
+    }
+    return result
+  }
 
-            if (Array.isArray(data) && data.length > 0) {
-              await this.ctx.database.upsert(tableName as any, data)
-              restoredTables.push(tableName)
-            }
-          } catch (e) {
-            logger.warn(`恢复文件 ${fileName} 失败: ${e.message}`)
+  /**
+   * 创建表的字段迁移器
+   * @param table - 表名
+   * @param manifest - 备份清单
+   * @param mapping - 字段映射
+   * @param sample - 备份中的首行数据
+   * @returns 字段迁移器
+   * @private
+   */
+  private createMigrator(table: string, manifest: BackupManifest | undefined, mapping: RestoreOptions['mapping'] = {}, sample: any): SchemaMigrator {
+    return new SchemaMigrator(
+      this.ctx.model.tables[table]?.fields,
+      manifest?.tables[table]?.fields,
+      { ...mapping['*'], ...mapping[table] },
+      sample,
+    )
+  }
+
+  /**
+   * 执行备份恢复
+   * @param backup - 备份信息
+   * @param options - 恢复选项
+   * @returns 每个表恢复的行数与字段变化
+   * @private
+   */
+  private async restoreBackup(backup: BackupInfo, options: RestoreOptions = {}): Promise<RestoreResult> {
+    const result: RestoreResult = { rows: {}, stats: {}, changes: {}, failed: {} }
+    const transactional = options.mode === 'replace' && !options.dryRun
+
+    const files = backup.files.filter(fileName => {
+      const table = fileName.match(BACKUP_FILE_PATTERN)?.[2]
+      return !(table && options.tables?.length && !options.tables.includes(table))
+    })
+    if (!options.dryRun) await this.authenticateFiles(backup, files)
+
+    const run = async (database: Context['database']) => {
+      for (const fileName of files) {
+        const table = fileName.match(BACKUP_FILE_PATTERN)?.[2]
+        try {
+          await this.restoreFile(backup, fileName, table, options, result, database)
+        } catch (e) {
+          // replace 模式在事务中执行，任一文件失败即整体回滚
+          if (transactional) throw new Error(`${fileName}: ${e.message}`)
+          result.failed[fileName] = e.message
+          logger.warn(`恢复文件 ${fileName} 失败: ${e.message}`)
+        }
+      }
+    }
+
+    if (transactional) await this.ctx.database.withTransaction(run)
+    else await run(this.ctx.database)
+
+    // 预览 replace 时，备份中已存在的行会被覆盖而非删除
+    if (options.mode === 'replace' && options.dryRun) {
+      for (const stats of Object.values(result.stats)) {
+        stats.removed -= stats.updated
+      }
+    }
+    return result
+  }
+
+  /**
+   * 在写入任何数据前校验备份文件
+   * 有清单时核对 SHA-256；加密文件会完整解密一遍以验证认证标签，流式解密只在读到末尾时才能发现篡改或密码错误
+   * @param backup - 备份信息
+   * @param files - 要读取的文件
+   * @private
+   */
+  private async authenticateFiles(backup: BackupInfo, files: string[]): Promise<void> {
+    for (const fileName of files) {
+      const expected = backup.manifest?.files[fileName]
+      if (expected && (await this.hashFile(backup.storage, fileName)).sha256 !== expected.sha256) {
+        throw new Error(`${fileName} 校验和与清单不符，文件可能已损坏或被篡改`)
+      }
+      if (!fileName.match(FILE_SUFFIX_PATTERN)[2]) continue
+      try {
+        for await (const _ of await this.openReader(backup.storage, fileName));
+      } catch (e) {
+        throw new Error(`${fileName} 解密失败，密码错误或文件已被篡改 (${e.message})`)
+      }
+    }
+  }
+
+  /**
+   * 从备份归档恢复文件，已存在的文件会被覆盖
+   * @param backup - 备份信息
+   * @param patterns - 要恢复的路径模式，`**` 为全部
+   * @param dryRun - 仅列出，不写入
+   * @returns 恢复（或将要恢复）的文件
+   * @private
+   */
+  private async restoreArchive(backup: BackupInfo, patterns: string[], dryRun: boolean = false): Promise<Record<string, BundledFile>> {
+    if (!backup.archive) return {}
+    const match = createPathMatcher(patterns)
+    return restoreFiles(process.cwd(), this.readBackupFile(backup.storage, backup.archive), match, dryRun)
+  }
+
+  /**
+   * 格式化单个表的恢复统计
+   * @param stats - 恢复统计
+   * @param mode - 恢复模式
+   * @param dryRun - 是否为预览
+   * @returns 统计说明
+   * @private
+   */
+  private formatStats(stats: RestoreStats, mode: RestoreMode, dryRun: boolean): string {
+    if (dryRun) {
+      switch (mode) {
+        case 'replace': return `将新增 ${stats.inserted}，覆盖 ${stats.updated}，删除 ${stats.removed}`
+        case 'insert-only': return `将新增 ${stats.inserted}，跳过 ${stats.skipped}`
+        default: return `将新增 ${stats.inserted}，更新 ${stats.updated}`
+      }
+    }
+    switch (mode) {
+      case 'replace': return `清空 ${stats.removed} 行，写入 ${stats.inserted} 行`
+      case 'insert-only': return `新增 ${stats.inserted}，跳过 ${stats.skipped}`
+      default: return `新增 ${stats.inserted}，更新 ${stats.updated}`
+    }
+  }
+
+  /**
+   * 计算文件的 SHA-256
+   * @param storage - 备份存储
+   * @param fileName - 文件名
+   * @returns 文件大小与十六进制摘要
+   * @private
+   */
+  private async hashFile(storage: BackupStorage, fileName: string): Promise<BackupFileInfo> {
+    const hash = createHash('sha256')
+    let size = 0
+    for await (const chunk of await storage.read(fileName)) {
+      hash.update(chunk)
+      size += chunk.length
+    }
+    return { size, sha256: hash.digest('hex') }
+  }
+
+  /**
+   * 根据清单校验备份
+   * @param backup - 备份信息
+   * @param deep - 是否读取全部内容并核对行数
+   * @returns 发现的问题，为空表示校验通过
+   * @private
+   */
+  private async verifyBackup(backup: BackupInfo, deep: boolean = false): Promise<string[]> {
+    const { manifest } = backup
+    if (!manifest) return ['缺少清单文件']
+    const problems: string[] = []
+    const rows: Record<string, number> = {}
+    const sizes: Record<string, number> = {}
+    const dataFiles = backup.archive ? [...backup.files, backup.archive] : backup.files
+
+    for (const [fileName, expected] of Object.entries(manifest.files)) {
+      if (!dataFiles.includes(fileName)) {
+        problems.push(`缺少文件: ${fileName}`)
+        continue
+      }
+      const actual = await this.hashFile(backup.storage, fileName)
+      if (actual.size !== expected.size) {
+        problems.push(`大小不符: ${fileName} (${actual.size}/${expected.size})`)
+      } else if (actual.sha256 !== expected.sha256) {
+        problems.push(`校验和不符: ${fileName}`)
+      } else if (deep && fileName === backup.archive) {
+        try {
+          let current: string
+          for await (const item of this.readBackupFile(backup.storage, fileName)) {
+            if (typeof item?.$path === 'string') sizes[current = item.$path] = 0
+            else if (typeof item?.$data === 'string') sizes[current] += Buffer.byteLength(item.$data, 'base64')
+          }
+        } catch (e) {
+          problems.push(`读取失败: ${fileName} (${e.message})`)
+        }
+      } else if (deep) {
+        try {
+          let current = fileName.match(BACKUP_FILE_PATTERN)?.[2]
+          for await (const item of this.readBackupFile(backup.storage, fileName)) {
+            if (typeof item?.$table === 'string') current = item.$table
+            else rows[current] = (rows[current] || 0) + 1
           }
+        } catch (e) {
+          problems.push(`读取失败: ${fileName} (${e.message})`)
         }
-        return restoredTables
       }
     }
+    for (const fileName of dataFiles) {
+      if (!(fileName in manifest.files)) problems.push(`未记录的文件: ${fileName}`)
+    }
+    if (deep && !problems.length) {
+      for (const [table, info] of Object.entries(manifest.tables)) {
+        if ((rows[table] || 0) !== info.rows) problems.push(`行数不符: ${table} (${rows[table] || 0}/${info.rows})`)
+      }
+      for (const [file, info] of Object.entries(manifest.paths || {})) {
+        if (!(file in sizes)) problems.push(`缺少打包文件: ${file}`)
+        else if (sizes[file] !== info.size) problems.push(`打包文件大小不符: ${file} (${sizes[file]}/${info.size})`)
+      }
+    }
+    return problems
   }
 
   /**
@@ -293,12 +1164,17 @@ export class BackupService {
    * @returns 格式化后的备份列表
    * @private
    */
-  private formatBackupsList(backups: {timestamp: string, tables?: string[]}[]): string {
+  private formatBackupsList(backups: BackupInfo[]): string {
     let result = '可用备份（输入序号恢复）:\n'
     result += backups.map((backup, idx) => {
       const { date, time } = formatTimestamp(backup.timestamp)
-      const count = this.config.singleFile ? 1 : (backup.tables?.length || 0)
-      return `${idx + 1}. ${date} ${time} (${count})`
+      const { manifest } = backup
+      if (!manifest) return `${idx + 1}. ${date} ${time} (${backup.tables?.length || 1})`
+      const tableCount = Object.keys(manifest.tables).length
+      const rows = Object.values(manifest.tables).reduce((sum, info) => sum + info.rows, 0)
+      const size = Object.values(manifest.files).reduce((sum, info) => sum + info.size, 0)
+      const fileCount = Object.keys(manifest.paths || {}).length
+      return `${idx + 1}. ${date} ${time} (${tableCount}表/${rows}行${fileCount ? `/${fileCount}文件` : ''}/${formatSize(size)})`
     }).join('\n')
     return result
   }
@@ -310,9 +1186,10 @@ export class BackupService {
   registerBackupCommands(db: any): void {
     db.subcommand('.backup', '备份数据库')
       .option('tables', '-t <tables:string> 指定表（逗号分隔）')
-      .action(async ({ options }) => {
+      .option('storage', '-s <storage:string> 存储名称（默认为本地目录）')
+      .action(async ({ session, options }) => {
         try {
-          await this.ensureBackupDir()
+          const storage = this.getStorage(options.storage)
           const timestamp = getTimestamp()
           const specificTables = options.tables ? options.tables.split(',').filter(Boolean) : undefined
           const tables = await this.getTablesForBackup(specificTables)
@@ -321,11 +1198,11 @@ export class BackupService {
             return '无可备份的表'
           }
 
-          const result = await this.backupTables(tables, timestamp);
+          // 指定表时仅备份这些表，不打包文件
+          const paths = specificTables ? [] : this.config.includePaths
+          const result = await this.backupTables(storage, tables, timestamp, paths, createProgress(session, '备份'));
 
-          if (this.config.keepBackups > 0) {
-            await this.cleanupOldBackups(this.config.keepBackups)
-          }
+          await this.cleanupOldBackups(storage)
 
           logger.info(result)
           return result
@@ -336,10 +1213,18 @@ export class BackupService {
 
     db.subcommand('.restore [index]', '恢复数据库')
       .option('tables', '-t <tables:string> 指定表（逗号分隔）')
-      .action(async ({ options }, index) => {
+      .option('storage', '-s <storage:string> 存储名称（默认为本地目录）')
+      .option('mode', '-m <mode:string> 模式(replace/upsert/insert-only)', { fallback: 'upsert' })
+      .option('map', '--map <map:string> 字段映射（旧字段:新字段，可加表名前缀，逗号分隔）')
+      .option('files', '--files <paths:string> 恢复打包的文件（路径或通配符，逗号分隔，** 为全部）')
+      .option('dryRun', '--dry-run 仅预览字段变化与写入行数，不写入数据')
+      .usage('恢复时按当前模型迁移数据：丢弃已删除的字段、转换类型，并可通过 --map 映射重命名的字段\n' +
+        '模式: replace 清空表后写入（事务中执行），upsert 按主键合并，insert-only 仅写入不存在的行\n' +
+        '指定 --files 而不指定 -t 时仅恢复文件，已存在的文件会被覆盖\n' +
+        '示例: db.restore 1 -t user -m insert-only --map user.nick:name --dry-run')
+      .action(async ({ session, options }, index) => {
         try {
-          await this.ensureBackupDir()
-          const backups = await this.listBackups()
+          const backups = await this.listBackups(this.getStorage(options.storage))
           const tableNames = options.tables ? options.tables.split(',').filter(Boolean) : undefined
 
           if (backups.length === 0) {
@@ -349,58 +1234,290 @@ export class BackupService {
             return this.formatBackupsList(backups)
           }
 
+          const mode = (options.mode || 'upsert') as RestoreMode
+          if (!RESTORE_MODES.includes(mode)) {
+            return `恢复失败: 不支持的模式 "${mode}"`
+          }
+
           const backupIndex = parseInt(index) - 1
           if (isNaN(backupIndex) || backupIndex < 0 || backupIndex >= backups.length) {
             return `无效序号`
           }
 
           const targetBackup = backups[backupIndex]
-          const restoredTables = await this.restoreBackup(targetBackup, tableNames)
+          const filePatterns = options.files ? options.files.split(',').filter(Boolean) : undefined
+          if (filePatterns && !targetBackup.archive) {
+            return '恢复失败: 该备份没有打包文件'
+          }
+
+          // 先校验归档，避免表已写入后才发现归档无效
+          if (filePatterns && !options.dryRun) await this.authenticateFiles(targetBackup, [targetBackup.archive])
 
-          if (restoredTables.length === 0) {
+          let result: RestoreResult = { rows: {}, stats: {}, changes: {}, failed: {} }
+          if (!filePatterns || tableNames) {
+            result = await this.restoreBackup(targetBackup, {
+              tables: tableNames,
+              mode,
+              mapping: parseFieldMapping(options.map),
+              dryRun: options.dryRun,
+              onProgress: createProgress(session, options.dryRun ? '检查' : '恢复'),
+            })
+          }
+          const { rows, stats, changes, failed } = result
+          const failures = Object.entries(failed).map(([file, message]) => `\n  ${file}: ${message}`).join('')
+          const files = filePatterns ? await this.restoreArchive(targetBackup, filePatterns, options.dryRun) : {}
+          const restoredTables = Object.keys(rows)
+          const restoredFiles = Object.keys(files)
+
+          if (restoredTables.length === 0 && restoredFiles.length === 0) {
+            if (failures) return `恢复失败:${failures}`
             return tableNames?.length
               ? `未找到备份数据: ${tableNames.join(', ')}`
-              : '无有效数据'
+              : filePatterns
+                ? `未找到匹配的文件: ${filePatterns.join(', ')}`
+                : '无有效数据'
           }
 
-          const result = tableNames?.length
-            ? `已恢复表: ${restoredTables.join(', ')}`
-            : `已恢复 (${restoredTables.length}/${targetBackup.tables?.length || 1})`
+          const header = options.dryRun
+            ? `恢复预览（未写入数据）:`
+            : tableNames?.length || !restoredTables.length
+              ? `已恢复${restoredTables.length ? `表: ${restoredTables.join(', ')}` : ''}`
+              : `已恢复 (${restoredTables.length}/${targetBackup.tables?.length || restoredTables.length})`
 
-          return result
+          const lines = restoredTables.map(table => {
+            const lines = SchemaMigrator.format(changes[table] || [])
+            return `${table}: ${rows[table]} 行，${this.formatStats(stats[table], mode, options.dryRun)}` + lines.map(line => `\n  ${line}`).join('')
+          })
+          if (restoredFiles.length) {
+            const size = restoredFiles.reduce((sum, file) => sum + files[file].size, 0)
+            const shown = restoredFiles.slice(0, 20).map(file => `\n  ${file}`).join('')
+            const more = restoredFiles.length > 20 ? `\n  等 ${restoredFiles.length} 个文件` : ''
+            lines.push(`文件: ${options.dryRun ? '将写入' : '已写入'} ${restoredFiles.length} 个 (${formatSize(size)})` + shown + more)
+          }
+          if (failures) lines.push(`未成功:${failures}`)
+          return header + '\n' + lines.join('\n')
+        } catch (e) {
+          return `恢复失败: ${e.message}`
+        }
+      })
+
+    db.subcommand('.backup.query <index> <table>', '查询备份数据')
+      .option('storage', '-s <storage:string> 存储名称（默认为本地目录）')
+      .option('filter', '-f <filter:string> 过滤条件(JSON)')
+      .option('page', '--page <page:number> 页码')
+      .usage('在备份文件中按条件查询数据，过滤条件与 db.query 相同\n' +
+        '示例: db.backup.query 1 user -f {"id":123}')
+      .action(async ({ options }, index, table) => {
+        try {
+          const filter = JSON.parse(options.filter || '{}')
+          const page = Math.max(1, options.page || 1)
+          const pageSize = 10
+
+          const backup = this.selectBackup(await this.listBackups(this.getStorage(options.storage)), index)
+          if (!backup) return '无效序号'
+          if (!this.hasTable(backup, table)) return `查询失败: 备份中没有表 "${table}"`
+
+          const offset = (page - 1) * pageSize
+          const rows: any[] = []
+          let totalCount = 0
+          for await (const row of this.readTableRows(backup, table)) {
+            if (!executeQuery(row, filter, 'row')) continue
+            if (totalCount >= offset && rows.length < pageSize) rows.push(row)
+            totalCount++
+          }
+
+          const { date, time } = formatTimestamp(backup.timestamp)
+          if (totalCount === 0) {
+            return `备份 ${date} ${time} 的表 ${table} 中没有匹配数据`
+          }
+
+          const totalPages = Math.ceil(totalCount / pageSize)
+          const filterDesc = Object.keys(filter).length > 0 ?
+            `\n过滤条件: ${JSON.stringify(filter)}` : ''
+
+          return `备份 ${date} ${time} 表 ${table} (${totalCount}条) - 第${page}/${totalPages}页${filterDesc}\n` +
+            formatAsTable(rows)
+        } catch (e) {
+          return `查询失败: ${e.message}`
+        }
+      })
+
+    db.subcommand('.backup.pick <index> <table>', '从备份恢复指定行')
+      .option('storage', '-s <storage:string> 存储名称（默认为本地目录）')
+      .option('filter', '-f <filter:string> 过滤条件(JSON)', { required: true })
+      .option('map', '--map <map:string> 字段映射（旧字段:新字段，逗号分隔）')
+      .usage('将备份中匹配条件的行按当前模型迁移后写入数据库（按主键合并）\n' +
+        '示例: db.backup.pick 1 user -f {"id":123}')
+      .action(async ({ options }, index, table) => {
+        try {
+          const filter = JSON.parse(options.filter || '{}')
+          if (!Object.keys(filter).length) return '恢复失败: 过滤条件不能为空，恢复整个表请使用 db.restore'
+
+          const backup = this.selectBackup(await this.listBackups(this.getStorage(options.storage)), index)
+          if (!backup) return '无效序号'
+          if (!this.hasTable(backup, table)) return `恢复失败: 备份中没有表 "${table}"`
+          if (!this.ctx.model.tables[table]) return `恢复失败: 表 "${table}" 不存在`
+
+          const mapping = parseFieldMapping(options.map)
+          let migrator: SchemaMigrator
+          let batch: any[] = []
+          let inserted = 0, updated = 0
+          const flush = async () => {
+            if (!batch.length) return
+            const written = await this.ctx.database.upsert(table as any, batch)
+            inserted += written?.inserted ?? 0
+            updated += written?.matched ?? 0
+            batch = []
+          }
+          for await (const row of this.readTableRows(backup, table)) {
+            if (!executeQuery(row, filter, 'row')) continue
+            migrator ??= this.createMigrator(table, backup.manifest, mapping, row)
+            batch.push(migrator.migrate(row))
+            if (batch.length >= this.config.batchSize) await flush()
+          }
+          await flush()
+
+          if (!migrator) return `备份中没有匹配数据`
+          const lines = SchemaMigrator.format(migrator.getChanges())
+          return `已从备份恢复 ${inserted + updated} 条数据 (新增 ${inserted}，更新 ${updated})` +
+            lines.map(line => `\n  ${line}`).join('')
         } catch (e) {
           return `恢复失败: ${e.message}`
         }
       })
+
+    db.subcommand('.backup.diff <index> [table]', '比较备份与当前数据')
+      .option('storage', '-s <storage:string> 存储名称（默认为本地目录）')
+      .option('sample', '-n <count:number> 每类差异显示的示例数', { fallback: 5 })
+      .usage('按主键比较备份与当前数据，报告备份后新增、删除和修改的行\n' +
+        '指定表时显示示例及修改行的字段差异\n' +
+        '示例: db.backup.diff 1 user')
+      .action(async ({ options }, index, table) => {
+        try {
+          const backup = this.selectBackup(await this.listBackups(this.getStorage(options.storage)), index)
+          if (!backup) return '无效序号'
+
+          let tables: string[]
+          if (table) {
+            if (!this.hasTable(backup, table)) return `比较失败: 备份中没有表 "${table}"`
+            tables = [table]
+          } else {
+            tables = backup.manifest ? Object.keys(backup.manifest.tables) : backup.tables
+            if (!tables) return '比较失败: 该备份没有清单，请指定表名'
+          }
+
+          const { date, time } = formatTimestamp(backup.timestamp)
+          const lines = [`备份 ${date} ${time} 与当前数据比较:`]
+          const format = (value: any) => JSON.stringify(value)
+          for (const name of tables) {
+            if (!this.ctx.model.tables[name]) {
+              lines.push(`${name}: 当前无此表`)
+              continue
+            }
+            const diff = await this.diffTable(backup, name, table ? options.sample : 0)
+            lines.push(`${name}: 新增 ${diff.added}，删除 ${diff.removed}，修改 ${diff.changed}，未变 ${diff.unchanged}`)
+            if (!table) continue
+            if (diff.samples.added.length) lines.push('新增的行:\n' + formatAsTable(diff.samples.added).trimEnd())
+            if (diff.samples.removed.length) lines.push('删除的行:\n' + formatAsTable(diff.samples.removed).trimEnd())
+            for (const { key, diffs } of diff.samples.changed) {
+              lines.push(`修改 ${key}:` + diffs.map(entry => {
+                if (entry.type === 'added') return `\n  + ${entry.path}: ${format(entry.to)}`
+                if (entry.type === 'removed') return `\n  - ${entry.path}: ${format(entry.from)}`
+                return `\n  ~ ${entry.path}: ${format(entry.from)} → ${format(entry.to)}`
+              }).join(''))
+            }
+          }
+          return lines.join('\n')
+        } catch (e) {
+          return `比较失败: ${e.message}`
+        }
+      })
+
+    db.subcommand('.backup.verify [index]', '校验备份')
+      .option('storage', '-s <storage:string> 存储名称（默认为本地目录）')
+      .option('deep', '-d 读取全部内容并核对行数')
+      .usage('根据备份清单校验文件大小与 SHA-256，不指定序号时校验所有备份')
+      .action(async ({ options }, index) => {
+        try {
+          const backups = await this.listBackups(this.getStorage(options.storage))
+          if (backups.length === 0) {
+            return '无可用备份'
+          }
+
+          let targets = backups
+          if (index) {
+            const backupIndex = parseInt(index) - 1
+            if (isNaN(backupIndex) || backupIndex < 0 || backupIndex >= backups.length) {
+              return `无效序号`
+            }
+            targets = [backups[backupIndex]]
+          }
+
+          const lines: string[] = []
+          for (const backup of targets) {
+            const { date, time } = formatTimestamp(backup.timestamp)
+            const problems = await this.verifyBackup(backup, options.deep)
+            lines.push(problems.length
+              ? `${date} ${time} 校验失败:\n${problems.map(problem => `- ${problem}`).join('\n')}`
+              : `${date} ${time} 校验通过 (${Object.keys(backup.manifest.files).length} 个文件)`)
+          }
+          return lines.join('\n')
+        } catch (e) {
+          return `校验失败: ${e.message}`
+        }
+      })
   }
 
   /**
-   * 清理旧备份
-   * @param keepCount - 保留的备份数量
+   * 按祖父-父-子策略选择保留的备份
+   * 分别保留最近 keepDaily 天、keepWeekly 周、keepMonthly 月中每个周期最新的一份备份
+   * @param backups - 备份列表（按时间倒序）
+   * @returns 保留的备份时间戳
    * @private
    */
-  private async cleanupOldBackups(keepCount: number): Promise<void> {
-    if (keepCount <= 0) return
-    try {
-      const backups = await this.listBackups()
-      if (backups.length <= keepCount) {
-        return
-      }
-
-      const backupsToDelete = backups.slice(keepCount)
-      if (backupsToDelete.length === 0) {
-        return
+  private selectRetainedBackups(backups: BackupInfo[]): Set<string> {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    const periods: [number, (date: Date) => string][] = [
+      [this.config.keepDaily, date => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`],
+      [this.config.keepWeekly, date => {
+        // 以周一所在日期标识一周
+        const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7)
+        return `${monday.getFullYear()}${pad(monday.getMonth() + 1)}${pad(monday.getDate())}`
+      }],
+      [this.config.keepMonthly, date => `${date.getFullYear()}${pad(date.getMonth() + 1)}`],
+    ]
+    const retained = new Set<string>()
+    for (const [count, getPeriod] of periods) {
+      const seen = new Set<string>()
+      for (const backup of backups) {
+        const period = getPeriod(parseTimestamp(backup.timestamp))
+        if (seen.has(period)) continue
+        if (seen.size >= count) break
+        seen.add(period)
+        retained.add(backup.timestamp)
       }
+    }
+    return retained
+  }
 
-      const timestampsToDelete = new Set(backupsToDelete.map(b => b.timestamp))
-      const allFiles = await fs.readdir(this.config.dir)
+  /**
+   * 按保留策略清理旧备份
+   * 所有保留数量均为 0 时不清理
+   * @param storage - 备份存储
+   * @private
+   */
+  private async cleanupOldBackups(storage: BackupStorage): Promise<void> {
+    const { keepDaily, keepWeekly, keepMonthly } = this.config
+    if (!keepDaily && !keepWeekly && !keepMonthly) return
+    try {
+      const backups = await this.listBackups(storage)
+      const retained = this.selectRetainedBackups(backups)
+      const backupsToDelete = backups.filter(backup => !retained.has(backup.timestamp))
       const deletePromises: Promise<void>[] = []
 
-      for (const file of allFiles) {
-        const match = file.match(/^backup_(\d+)/)
-        if (match && timestampsToDelete.has(match[1])) {
-          const filePath = path.join(this.config.dir, file)
-          deletePromises.push(fs.unlink(filePath).then(() => {
+      for (const backup of backupsToDelete) {
+        for (const file of [...backup.files, backup.archive, backup.manifestFile].filter(Boolean)) {
+          deletePromises.push(storage.remove(file).then(() => {
             logger.info(`已删除旧备份: ${file}`)
           }))
         }
@@ -414,40 +1531,94 @@ export class BackupService {
 
   /**
    * 列出可用备份
-   * @returns 备份列表
+   * 单文件与多文件备份按文件名区分，不依赖当前的 singleFile 配置
+   * @param storage - 备份存储
+   * @returns 备份列表（按时间倒序）
    * @private
    */
-  private async listBackups(): Promise<{timestamp: string, tables?: string[]}[]> {
-    await this.ensureBackupDir()
-    const files = await fs.readdir(this.config.dir)
+  private async listBackups(storage: BackupStorage): Promise<BackupInfo[]> {
+    const files = await storage.list()
+    const backupMap = new Map<string, BackupInfo>()
 
-    if (this.config.singleFile) {
-      // 单文件备份模式
-      return files
-        .filter(file => file.match(/^backup_\d+\.json$/))
-        .map(file => {
-          const match = file.match(/^backup_(\d+)\.json$/);
-          return match ? { timestamp: match[1] } : null;
-        })
-        .filter(Boolean)
-        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
-    } else {
-      // 多文件备份模式
-      const fileMap = new Map<string, string[]>();
-      files.filter(file => file.match(/^backup_\d+_(.+)\.json$/))
-        .forEach(file => {
-          const match = file.match(/^backup_(\d+)_(.+)\.json$/);
-          if (match) {
-            const [_, timestamp, table] = match;
-            if (!fileMap.has(timestamp)) {
-              fileMap.set(timestamp, []);
-            }
-            fileMap.get(timestamp).push(table);
-          }
-        });
-      return Array.from(fileMap.entries())
-        .map(([timestamp, tables]) => ({ timestamp, tables }))
-        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    const getBackup = (timestamp: string) => {
+      if (!backupMap.has(timestamp)) {
+        backupMap.set(timestamp, { timestamp, files: [], storage })
+      }
+      return backupMap.get(timestamp)
+    }
+
+    for (const file of files) {
+      const manifestMatch = file.match(MANIFEST_FILE_PATTERN)
+      if (manifestMatch) {
+        getBackup(manifestMatch[1]).manifestFile = file
+        continue
+      }
+      const archiveMatch = file.match(ARCHIVE_FILE_PATTERN)
+      if (archiveMatch) {
+        getBackup(archiveMatch[1]).archive = file
+        continue
+      }
+      const match = file.match(BACKUP_FILE_PATTERN)
+      if (!match) continue
+      const [, timestamp, table] = match
+      const backup = getBackup(timestamp)
+      backup.files.push(file)
+      if (table) (backup.tables ??= []).push(table)
+    }
+
+    const backups = Array.from(backupMap.values()).filter(backup => backup.files.length || backup.archive)
+    for (const backup of backups) {
+      if (!backup.manifestFile) continue
+      try {
+        backup.manifest = JSON.parse((await storage.readFile(backup.manifestFile)).toString('utf-8'))
+      } catch (e) {
+        logger.warn(`读取备份清单失败: ${backup.manifestFile} (${e.message})`)
+      }
+    }
+    return backups.sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+  }
+}
+
+/**
+ * 解析过滤条件中的相对时间（如 now、now-30d、now+1h）
+ * 数字类型字段解析为毫秒时间戳，其余解析为日期
+ * @param filter - 过滤条件
+ * @param fields - 表的字段定义
+ * @param now - 当前时间
+ * @param field - 当前所在字段
+ * @returns 解析后的过滤条件
+ */
+function resolveRelativeTime(filter: any, fields: Record<string, any> = {}, now: Date, field?: string): any {
+  if (typeof filter === 'string') {
+    const match = filter.match(/^now(?:([+-])(\d+)([smhdw]))?$/)
+    if (!match) return filter
+    const [, sign, amount, unit] = match
+    const time = now.getTime() + (sign ? (sign === '-' ? -1 : 1) * +amount * TIME_UNITS[unit] : 0)
+    return NUMBER_FIELD_TYPES.includes(getFieldType(fields[field])) ? time : new Date(time)
+  }
+  if (Array.isArray(filter)) return filter.map(item => resolveRelativeTime(item, fields, now, field))
+  if (!filter || typeof filter !== 'object') return filter
+  return Object.fromEntries(Object.entries(filter).map(([key, value]) =>
+    [key, resolveRelativeTime(value, fields, now, key.startsWith('$') ? field : key)]))
+}
+
+/**
+ * 将二进制字段转换为 {"$binary": Base64}
+ * minato 以 ArrayBuffer 返回二进制字段，直接序列化会得到空对象
+ * @param row - 数据行
+ * @param fields - 二进制字段
+ * @returns 可序列化的行
+ */
+function encodeBinary(row: any, fields: string[]): any {
+  if (!fields.length) return row
+  const result = { ...row }
+  for (const field of fields) {
+    const value = row[field]
+    if (value instanceof ArrayBuffer) {
+      result[field] = { $binary: Buffer.from(value).toString('base64') }
+    } else if (ArrayBuffer.isView(value)) {
+      result[field] = { $binary: Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64') }
     }
   }
+  return result
 }
@@ -0,0 +1,174 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { createReadStream, createWriteStream, Stats, WriteStream } from 'fs'
+import { once } from 'events'
+import { globToRegExp } from './utils'
+
+/**
+ * 打包文件信息
+ */
+export interface BundledFile {
+  size: number
+  /** 修改时间（毫秒） */
+  mtime: number
+}
+
+/** 每行数据块的原始字节数（Base64 后约 64KB） */
+const CHUNK_SIZE = 48 * 1024
+
+/**
+ * 规范化相对路径模式
+ * @param pattern - 路径模式
+ * @returns 以`/`分隔、无首尾多余字符的模式
+ */
+function normalizePattern(pattern: string): string {
+  const result = pattern.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '')
+  if (!result || result.split('/').includes('..') || path.isAbsolute(result)) {
+    throw new Error(`无效的文件路径: ${pattern}`)
+  }
+  return result
+}
+
+/**
+ * 创建路径匹配函数
+ * 含通配符的模式按 glob 匹配，否则匹配该文件或目录下的所有文件
+ * @param patterns - 路径模式
+ * @returns 匹配函数
+ */
+export function createPathMatcher(patterns: string[]): (file: string) => boolean {
+  const matchers = patterns.map(normalizePattern).map(pattern => {
+    if (!/[*?]/.test(pattern)) return (file: string) => file === pattern || file.startsWith(`${pattern}/`)
+    const regexp = globToRegExp(pattern)
+    return (file: string) => regexp.test(file)
+  })
+  return file => matchers.some(matcher => matcher(file))
+}
+
+/**
+ * 按路径模式收集文件
+ * @param baseDir - 基准目录
+ * @param patterns - 相对基准目录的路径模式
+ * @param excludeDirs - 跳过的目录
+ * @returns 相对路径列表（以`/`分隔，已排序）
+ */
+export async function collectFiles(baseDir: string, patterns: string[], excludeDirs: string[] = []): Promise<string[]> {
+  const result = new Set<string>()
+  const excluded = excludeDirs.map(dir => path.resolve(baseDir, dir))
+  for (const pattern of patterns.map(normalizePattern)) {
+    // 从第一个含通配符的路径段之前开始遍历
+    const segments = pattern.split('/')
+    const index = segments.findIndex(segment => /[*?]/.test(segment))
+    const base = index === -1 ? pattern : segments.slice(0, index).join('/')
+    const match = createPathMatcher([pattern])
+    for await (const file of walk(baseDir, base, excluded)) {
+      if (match(file)) result.add(file)
+    }
+  }
+  return [...result].sort()
+}
+
+/**
+ * 递归遍历目录下的文件
+ * @param baseDir - 基准目录
+ * @param relative - 相对基准目录的起始路径
+ * @param excluded - 跳过的目录（绝对路径）
+ * @returns 相对路径
+ */
+async function* walk(baseDir: string, relative: string, excluded: string[]): AsyncGenerator<string> {
+  const absolute = path.resolve(baseDir, relative)
+  if (excluded.some(dir => absolute === dir || absolute.startsWith(dir + path.sep))) return
+  let stat: Stats
+  try {
+    stat = await fs.stat(absolute)
+  } catch (error) {
+    if (error.code === 'ENOENT') return
+    throw error
+  }
+  if (stat.isFile()) {
+    yield relative
+    return
+  }
+  if (!stat.isDirectory()) return
+  for (const entry of await fs.readdir(absolute)) {
+    yield* walk(baseDir, relative ? `${relative}/${entry}` : entry, excluded)
+  }
+}
+
+/**
+ * 将文件以 NDJSON 写入
+ * 每个文件以 {"$path": 路径, size, mtime} 行开头，其后为 {"$data": Base64} 数据块
+ * @param baseDir - 基准目录
+ * @param files - 相对路径列表，已不存在的文件会被跳过
+ * @param write - 写入函数
+ * @returns 每个文件的大小与修改时间
+ */
+export async function writeFiles(baseDir: string, files: string[], write: (chunk: string) => Promise<void>): Promise<Record<string, BundledFile>> {
+  const result: Record<string, BundledFile> = {}
+  for (const file of files) {
+    const absolute = path.resolve(baseDir, file)
+    let stat: Stats
+    try {
+      stat = await fs.stat(absolute)
+    } catch (error) {
+      // 收集后被删除的文件直接跳过
+      if (error.code === 'ENOENT') continue
+      throw error
+    }
+    await write(JSON.stringify({ $path: file, size: stat.size, mtime: stat.mtimeMs }) + '\n')
+    let size = 0
+    for await (const chunk of createReadStream(absolute, { highWaterMark: CHUNK_SIZE })) {
+      await write(JSON.stringify({ $data: chunk.toString('base64') }) + '\n')
+      size += chunk.length
+    }
+    result[file] = { size, mtime: stat.mtimeMs }
+  }
+  return result
+}
+
+/**
+ * 从 NDJSON 行中还原文件
+ * @param baseDir - 基准目录
+ * @param lines - 解析后的行
+ * @param match - 判断是否还原该文件
+ * @param dryRun - 仅列出，不写入
+ * @returns 还原（或将要还原）的文件
+ */
+export async function restoreFiles(baseDir: string, lines: AsyncIterable<any>, match: (file: string) => boolean, dryRun: boolean = false): Promise<Record<string, BundledFile>> {
+  const result: Record<string, BundledFile> = {}
+  let output: WriteStream
+  let current: { file: string, mtime: number }
+  const close = async () => {
+    if (!output) return
+    output.end()
+    await once(output, 'close')
+    const time = new Date(current.mtime)
+    await fs.utimes(path.resolve(baseDir, current.file), time, time)
+    output = undefined
+  }
+
+  try {
+    for await (const line of lines) {
+      if (typeof line?.$path === 'string') {
+        await close()
+        const file: string = line.$path
+        current = { file, mtime: line.mtime }
+        if (path.isAbsolute(file) || file.split('/').includes('..')) throw new Error(`无效的文件路径: ${file}`)
+        if (!match(file)) {
+          current = undefined
+          continue
+        }
+        result[file] = { size: line.size, mtime: line.mtime }
+        if (dryRun) continue
+        const absolute = path.resolve(baseDir, file)
+        await fs.mkdir(path.dirname(absolute), { recursive: true })
+        output = createWriteStream(absolute)
+      } else if (typeof line?.$data === 'string' && output) {
+        if (!output.write(Buffer.from(line.$data, 'base64'))) await once(output, 'drain')
+      }
+    }
+    await close()
+  } finally {
+    output?.destroy()
+  }
+  return result
+}
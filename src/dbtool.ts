@@ -1,6 +1,11 @@
-import { $, Context } from 'koishi';
+import { $, Context, makeArray } from 'koishi';
 import { logger } from './index';
-import { formatAsTable, formatInspect } from './utils';
+import { formatAsTable, formatInspect, formatSize, getFieldType, getPrimaryKeys } from './utils';
+
+/**
+ * 统计行数（COUNT(1)），不受字段空值影响
+ */
+const countRows = () => $.length(1);
 
 /**
  * 数据库服务类
@@ -34,6 +39,156 @@ export class DbService {
     }
   }
 
+  /**
+   * 描述表模型的键与字段
+   * @param table - 模型中的表名
+   * @param problems - 收集的键定义问题
+   * @returns 描述行
+   */
+  private describeModel(table: string, problems: string[]): string[] {
+    const model = this.ctx.model.tables[table];
+    const fields = model.fields || {};
+    const lines: string[] = [];
+    const checkFields = (keys: string[], label: string) => {
+      const missing = keys.filter(key => !fields[key]);
+      if (missing.length) problems.push(`${label}字段未定义: ${missing.join(', ')}`);
+    };
+
+    const primary = makeArray(model.primary);
+    lines.push(`主键: ${primary.join(', ') || '无'}${model.autoInc ? '（自增）' : ''}`);
+    checkFields(primary, '主键');
+
+    const unique = (model.unique || []).map(keys => makeArray(keys));
+    if (unique.length) {
+      lines.push(`唯一: ${unique.map(keys => `(${keys.join(', ')})`).join(' ')}`);
+      unique.forEach(keys => checkFields(keys, '唯一键'));
+    }
+
+    const foreign = Object.entries(model.foreign || {});
+    if (foreign.length) {
+      lines.push(`外键: ${foreign.map(([key, [target, field]]) => `${key} → ${target}.${field}`).join(', ')}`);
+      checkFields(foreign.map(([key]) => key), '外键');
+      for (const [key, [target, field]] of foreign) {
+        if (!this.ctx.model.tables[target]) problems.push(`外键 ${key} 引用的表 ${target} 没有模型定义`);
+        else if (!this.ctx.model.tables[target].fields[field]) problems.push(`外键 ${key} 引用的字段 ${target}.${field} 未定义`);
+      }
+    }
+
+    const rows = Object.entries<any>(fields).map(([name, field]) => {
+      const type = getFieldType(field);
+      const relation = field.relation ? `${field.relation.type} → ${field.relation.table}` : '';
+      return {
+        字段: name,
+        类型: relation || (field.deftype && field.deftype !== type ? `${type}(${field.deftype})` : type),
+        长度: field.precision ? `${field.precision},${field.scale ?? 0}` : field.length ?? '',
+        可空: field.nullable ? '是' : '',
+        默认值: typeof field.initial === 'function' ? '' : field.initial,
+        备注: field.deprecated ? '已废弃' : '',
+      };
+    });
+    lines.push(formatAsTable(rows).trimEnd());
+    return lines;
+  }
+
+  /**
+   * 解析字段列表，并检查字段是否在模型中定义
+   * @param table - 表名
+   * @param text - 逗号分隔的字段
+   * @returns 字段列表
+   */
+  private parseFields(table: string, text: string): string[] {
+    const fields = this.ctx.model.tables[table]?.fields || {};
+    const result = text.split(',').map(field => field.trim()).filter(Boolean);
+    const unknown = result.filter(field => !fields[field]);
+    if (unknown.length) throw new Error(`未知字段: ${unknown.join(', ')}`);
+    return result;
+  }
+
+  /**
+   * 解析排序条件
+   * @param text - 逗号分隔的 字段[:asc|desc]
+   * @param validate - 检查字段的函数
+   * @returns 字段与方向
+   */
+  private parseSort(text: string | undefined, validate: (key: string) => void): [string, 'asc' | 'desc'][] {
+    if (!text) return [];
+    return text.split(',').filter(Boolean).map(item => {
+      const [key, direction = 'asc'] = item.trim().split(':');
+      if (direction !== 'asc' && direction !== 'desc') throw new Error(`无效的排序方向: ${item}`);
+      validate(key);
+      return [key, direction];
+    });
+  }
+
+  /**
+   * 解析聚合列表，生成 minato 聚合表达式
+   * count 统计行数，count:字段 统计不同值的数量
+   * @param table - 表名
+   * @param text - 逗号分隔的聚合
+   * @returns 结果列名与聚合表达式
+   */
+  private parseAggregations(table: string, text: string): Record<string, (row: any) => any> {
+    const result: Record<string, (row: any) => any> = {};
+    for (const item of text.split(',').map(item => item.trim()).filter(Boolean)) {
+      const [fn, field] = item.split(':');
+      if (field) this.parseFields(table, field);
+      const name = field ? `${fn}_${field}` : fn;
+      if (fn === 'count') {
+        result[name] = field ? row => $.count(row[field]) : countRows;
+      } else if (['sum', 'avg', 'min', 'max'].includes(fn) && field) {
+        result[name] = row => $[fn](row[field]);
+      } else {
+        throw new Error(`不支持的聚合: ${item}`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 执行聚合查询
+   * 指定分组时按组分页显示，否则对整个表（或过滤结果）聚合，此时不能指定排序与页码
+   * @param table - 表名
+   * @param filter - 过滤条件
+   * @param options - 命令选项
+   * @param page - 页码
+   * @param pageSize - 每页行数
+   * @returns 格式化的结果
+   */
+  private async queryAggregation(table: string, filter: any, options: any, page: number, pageSize: number): Promise<string> {
+    if (options.fields) throw new Error('聚合查询不支持 -c，结果列由 -g 与 -a 决定');
+    if (!options.group && (options.sort || options.page)) {
+      throw new Error('未分组的聚合只有一行结果，不支持 -s 与 --page');
+    }
+    const aggregations = this.parseAggregations(table, options.aggr || 'count');
+    const filterDesc = Object.keys(filter).length > 0 ?
+      `\n过滤条件: ${JSON.stringify(filter)}` : '';
+    if (!options.group) {
+      const row: Record<string, any> = {};
+      for (const [name, expr] of Object.entries(aggregations)) {
+        row[name] = await this.ctx.database.eval(table as any, expr, filter);
+      }
+      return `表 ${table} 聚合结果${filterDesc}\n` + formatAsTable([row]);
+    }
+
+    const groupFields = this.parseFields(table, options.group);
+    const columns = [...groupFields, ...Object.keys(aggregations)];
+    const sort = this.parseSort(options.sort, key => {
+      if (!columns.includes(key)) throw new Error(`只能按分组字段或聚合结果排序: ${key}`);
+    });
+    const grouped = () => this.ctx.database.select(table as any, filter).groupBy(groupFields as any, aggregations as any);
+
+    const totalCount = await this.ctx.database.select(grouped()).execute(countRows);
+    if (totalCount === 0) return `表 ${table} 中没有匹配数据`;
+
+    let selection = grouped();
+    for (const [key, direction] of sort) selection = selection.orderBy(key as any, direction);
+    const rows = await selection.limit(pageSize).offset((page - 1) * pageSize).execute();
+
+    const totalPages = Math.ceil(totalCount / pageSize);
+    return `表 ${table} 按 ${groupFields.join(', ')} 分组 (${totalCount}组) - 第${page}/${totalPages}页${filterDesc}\n` +
+           formatAsTable(rows);
+  }
+
   /**
    * 初始化数据库命令
    * 注册所有数据库相关的子命令
@@ -84,21 +239,33 @@ export class DbService {
     // 查询命令
     this.Command.subcommand('.query <table>', '查询表数据')
       .option('filter', '-f <filter:string> 过滤条件(JSON)')
+      .option('fields', '-c <fields:string> 显示的字段（逗号分隔）')
+      .option('sort', '-s <sort:string> 排序（字段[:asc|desc]，逗号分隔）')
+      .option('limit', '-l <limit:number> 每页行数（最多100）', { fallback: 10 })
+      .option('group', '-g <fields:string> 分组字段（逗号分隔）')
+      .option('aggr', '-a <aggr:string> 聚合（count、count:字段、sum/avg/min/max:字段，逗号分隔）')
       .option('page', '--page <page:number> 页码')
-      .usage('以表格形式展示查询结果\n示例: db.query user -f {"platform":"discord"} --page 2')
+      .usage('以表格形式展示查询结果\n' +
+        '示例: db.query user -f {"platform":"discord"} -c id,name -s id:desc -l 20 --page 2\n' +
+        '分组统计: db.query message -g platform -a count,max:time -s count:desc')
       .action(async ({ options }, table) => {
         try {
           const filter = JSON.parse(options.filter || '{}');
           const page = Math.max(1, options.page || 1);
-          const pageSize = 10;
+          const pageSize = Math.min(100, Math.max(1, options.limit || 10));
 
           const validTable = await this.validateTable(table);
           if (!validTable) {
             return `查询失败: 表 "${table}" 不存在或无法访问`;
           }
 
-          const model = this.ctx.model.tables[validTable];
-          const keyToCount = Array.isArray(model.primary) ? model.primary[0] : model.primary || Object.keys(model.fields)[0];
+          if (options.group || options.aggr) {
+            return await this.queryAggregation(validTable, filter, options, page, pageSize);
+          }
+
+          const fields = options.fields ? this.parseFields(validTable, options.fields) : undefined;
+          const sort = this.parseSort(options.sort, key => this.parseFields(validTable, key));
+          const [keyToCount] = getPrimaryKeys(this.ctx, validTable);
 
           const totalCount = await this.ctx.database.eval(
               validTable as any,
@@ -111,9 +278,11 @@ export class DbService {
           }
 
           const currentPageData = await this.ctx.database.get(validTable as any, filter, {
+              fields,
+              sort: Object.fromEntries(sort),
               limit: pageSize,
               offset: (page - 1) * pageSize,
-          });
+          } as any);
 
           const totalPages = Math.ceil(totalCount / pageSize);
           const filterDesc = Object.keys(filter).length > 0 ?
@@ -139,8 +308,7 @@ export class DbService {
               return `统计失败: 表 "${table}" 不存在或无法访问`;
           }
 
-          const model = this.ctx.model.tables[validTable];
-          const keyToCount = Array.isArray(model.primary) ? model.primary[0] : model.primary || Object.keys(model.fields)[0];
+          const [keyToCount] = getPrimaryKeys(this.ctx, validTable);
 
           const count = await this.ctx.database.eval(
               validTable as any,
@@ -157,6 +325,37 @@ export class DbService {
         }
       });
 
+    // 表结构命令
+    this.Command.subcommand('.schema <table>', '查看表结构')
+      .usage('显示模型中的字段、主键、唯一键与外键，并检查表是否存在、表名大小写以及键引用的字段和表\n不比较数据库中实际的列与类型\n示例: db.schema user')
+      .action(async ({ }, table) => {
+        try {
+          const validTable = await this.validateTable(table);
+          const models = Object.keys(this.ctx.model.tables);
+          const modelName = models.find(name => name === (validTable || table))
+            || models.find(name => name.toLowerCase() === table.toLowerCase());
+          if (!validTable && !modelName) return `查看失败: 表 "${table}" 不存在`;
+
+          const name = validTable || modelName;
+          const stats = validTable ? (await this.ctx.database.stats()).tables?.[validTable] : undefined;
+          const lines = [`表 ${name}` + (stats ? ` (${stats.count}条${stats.size ? `/${formatSize(stats.size)}` : ''})` : '')];
+          const problems: string[] = [];
+
+          if (!modelName) {
+            problems.push('没有模型定义，无法显示字段');
+          } else {
+            if (!validTable) problems.push('模型已定义，但数据库中没有该表');
+            else if (validTable !== modelName) problems.push(`数据库中的表名为 ${validTable}，模型中为 ${modelName}`);
+            lines.push(...this.describeModel(modelName, problems));
+          }
+
+          if (problems.length) lines.push('问题:', ...problems.map(problem => `! ${problem}`));
+          return lines.join('\n');
+        } catch (e) {
+          return `查看失败: ${e.message}`;
+        }
+      });
+
     // 更新数据命令
     this.Command.subcommand('.update <table>', '更新表数据')
       .option('mode', '-m <mode:string> 模式(set/create/upsert)', { fallback: 'set' })
@@ -213,8 +412,7 @@ export class DbService {
           const validTable = await this.validateTable(table);
           if (!validTable) return `删除失败: 表 "${table}" 不存在或无法访问`;
 
-          const model = this.ctx.model.tables[validTable];
-          const keyToCount = Array.isArray(model.primary) ? model.primary[0] : model.primary || Object.keys(model.fields)[0];
+          const [keyToCount] = getPrimaryKeys(this.ctx, validTable);
 
           const count = await this.ctx.database.eval(
               validTable as any,
@@ -259,8 +457,7 @@ export class DbService {
           const validTable = await this.validateTable(table);
           if (!validTable) return `表 "${table}" 不存在，无需删除`;
 
-          const model = this.ctx.model.tables[validTable];
-          const keyToCount = Array.isArray(model.primary) ? model.primary[0] : model.primary || Object.keys(model.fields)[0];
+          const [keyToCount] = getPrimaryKeys(this.ctx, validTable);
 
           const count = await this.ctx.database.eval(validTable as any, (row) => $.count(row[keyToCount]));
 
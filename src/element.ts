@@ -0,0 +1,186 @@
+import { Session, h } from 'koishi'
+import { deflateSync, inflateSync } from 'zlib'
+import { ProtobufEncoder } from './protobuf'
+import { ProtoSchema } from './schema'
+
+/**
+ * 消息元素的 Protobuf 定义（JSON 描述符）
+ */
+const ELEM_DESCRIPTOR = {
+  nested: {
+    Elem: {
+      fields: {
+        text: { type: 'Text', id: 1 },
+        face: { type: 'Face', id: 2 },
+        notOnlineImage: { type: 'NotOnlineImage', id: 4 },
+        customFace: { type: 'CustomFace', id: 8 },
+        srcMsg: { type: 'SrcMsg', id: 45 },
+        lightApp: { type: 'LightApp', id: 51 },
+        commonElem: { type: 'CommonElem', id: 53 },
+      }
+    },
+    Text: { fields: { str: { type: 'string', id: 1 }, attr6Buf: { type: 'bytes', id: 3 } } },
+    Face: { fields: { index: { type: 'uint32', id: 1 } } },
+    NotOnlineImage: { fields: { filePath: { type: 'string', id: 1 }, origUrl: { type: 'string', id: 15 } } },
+    CustomFace: { fields: { filePath: { type: 'string', id: 2 }, origUrl: { type: 'string', id: 16 } } },
+    SrcMsg: {
+      fields: {
+        origSeqs: { type: 'uint32', id: 1, rule: 'repeated' },
+        senderUin: { type: 'uint64', id: 2 },
+        time: { type: 'uint32', id: 3 },
+        flag: { type: 'uint32', id: 4 },
+      }
+    },
+    LightApp: { fields: { data: { type: 'bytes', id: 1 } } },
+    CommonElem: { fields: { serviceType: { type: 'uint32', id: 1 }, pbElem: { type: 'bytes', id: 2 }, businessType: { type: 'uint32', id: 3 } } },
+    MarkdownData: { fields: { content: { type: 'string', id: 1 } } },
+  }
+}
+
+/**
+ * 消息元素转换器
+ * 在 Koishi 消息元素与 pb(elem) 结构之间互相转换
+ */
+export class ElementConverter {
+  private encoder: ProtobufEncoder
+
+  constructor() {
+    const schema = new ProtoSchema()
+    schema.addDescriptor(ELEM_DESCRIPTOR)
+    schema.resolve()
+    this.encoder = new ProtobufEncoder(schema)
+  }
+
+  /**
+   * 将 Koishi 消息元素转换为 pb 元素数组
+   * @param session - 会话对象（用于查询回复消息）
+   * @param elements - 消息元素
+   * @returns pb 元素数组
+   */
+  async toPb(session: Session, elements: h[]): Promise<any[]> {
+    const result: any[] = []
+    for (const element of elements) {
+      const { type, attrs } = element
+      switch (type) {
+        case 'text':
+          if (attrs.content) result.push({ 1: { 1: attrs.content } })
+          break
+        case 'at': {
+          const isAll = attrs.type === 'all'
+          const text = isAll ? '@全体成员' : `@${attrs.name || attrs.id}`
+          const attr6 = Buffer.alloc(13)
+          attr6.writeUInt16BE(1, 0)
+          attr6.writeUInt16BE(text.length, 4)
+          attr6.writeUInt8(isAll ? 1 : 0, 6)
+          attr6.writeUInt32BE(isAll ? 0 : parseInt(attrs.id), 7)
+          result.push({ 1: { 1: text, 3: attr6 } })
+          break
+        }
+        case 'face':
+          result.push({ 2: { 1: parseInt(attrs.id) } })
+          break
+        case 'quote':
+        case 'reply': {
+          let seq = attrs.seq ? parseInt(attrs.seq) : undefined
+          let sender = attrs.sender ? BigInt(attrs.sender) : 0n
+          let time = Math.floor(Date.now() / 1000)
+          if (attrs.id && seq === undefined) {
+            const msgInfo = await session.onebot._request('get_msg', { message_id: attrs.id })
+            const seqValue = msgInfo?.data?.real_seq || msgInfo?.data?.seq
+            if (!seqValue) throw new Error(`无法获取回复消息 Seq: ${attrs.id}`)
+            seq = parseInt(seqValue)
+            sender = BigInt(msgInfo.data.sender?.user_id || msgInfo.data.user_id || 0)
+            time = msgInfo.data.time || time
+          }
+          if (seq === undefined) throw new Error('回复元素缺少 id 或 seq')
+          result.push({ 45: { 1: [seq], 2: sender, 3: time, 4: 1 } })
+          break
+        }
+        case 'markdown': {
+          const content = attrs.content ?? element.children.map(child => child.attrs.content ?? child.toString()).join('')
+          result.push({ 53: { 1: 45, 2: Buffer.from(this.encoder.encode({ content }, 'MarkdownData')), 3: 1 } })
+          break
+        }
+        case 'json': {
+          const data = typeof attrs.data === 'string' ? attrs.data : JSON.stringify(attrs.data)
+          result.push({ 51: { 1: Buffer.concat([Buffer.from([0x01]), deflateSync(Buffer.from(data, 'utf-8'))]) } })
+          break
+        }
+        case 'image':
+        case 'img':
+        case 'pb': {
+          // 图片无法通过 pb 直接上传，只能引用已有元素的原始数据
+          const data = attrs.pb || attrs.data
+          if (!data || !/^([0-9a-fA-F]{2})+$/.test(data)) throw new Error(`${type} 元素需要通过 pb 属性引用已有元素的十六进制数据`)
+          result.push(Buffer.from(data, 'hex'))
+          break
+        }
+        default:
+          throw new Error(`不支持的元素类型: ${type}`)
+      }
+    }
+    return result
+  }
+
+  /**
+   * 将 pb 元素转换为 Koishi 消息元素
+   * @param elems - pb 元素（解码后的对象或原始数据）
+   * @returns 消息元素
+   */
+  toSatori(elems: any[]): h[] {
+    const result: h[] = []
+    for (const item of elems) {
+      const bytes = item instanceof Uint8Array ? item : this.encoder.encode(item)
+      const raw = Buffer.from(bytes).toString('hex')
+      let elem: any
+      try {
+        elem = this.encoder.decode(bytes, 'Elem')
+      } catch {
+        result.push(h('pb', { data: raw }))
+        continue
+      }
+      if (elem.text) {
+        const { str = '', attr6Buf } = elem.text
+        if (attr6Buf?.length >= 11) {
+          result.push(attr6Buf[6] === 1
+            ? h('at', { type: 'all' })
+            : h('at', { id: attr6Buf.readUInt32BE(7).toString(), name: str.replace(/^@/, '') }))
+        } else {
+          result.push(h.text(str))
+        }
+      } else if (elem.face) {
+        result.push(h('face', { id: elem.face.index }))
+      } else if (elem.srcMsg) {
+        result.push(h('quote', { seq: elem.srcMsg.origSeqs[0], sender: elem.srcMsg.senderUin?.toString(), time: elem.srcMsg.time }))
+      } else if (elem.lightApp?.data) {
+        const data: Buffer = elem.lightApp.data
+        const json = data[0] === 1 ? inflateSync(data.subarray(1)).toString('utf-8') : data.subarray(1).toString('utf-8')
+        result.push(h('json', { data: json }))
+      } else if (elem.commonElem?.serviceType === 45 && elem.commonElem.pbElem) {
+        result.push(h('markdown', {}, this.encoder.decode(elem.commonElem.pbElem, 'MarkdownData').content || ''))
+      } else if (elem.notOnlineImage || elem.customFace || elem.commonElem?.serviceType === 48) {
+        const url = elem.notOnlineImage?.origUrl
+          ? `https://c2cpicdw.qpic.cn${elem.notOnlineImage.origUrl}`
+          : elem.customFace?.origUrl ? `https://gchat.qpic.cn${elem.customFace.origUrl}` : undefined
+        result.push(h('image', { src: url, pb: raw }))
+      } else {
+        result.push(h('pb', { data: raw }))
+      }
+    }
+    return result
+  }
+
+  /**
+   * 在解码后的数据中查找所有消息的元素列表
+   * 消息体结构为 { 1: 头部, 2: 内容头, 3: { 1: { 2: 元素 } } }
+   * @param data - 解码后的数据
+   * @returns 每条消息的元素列表
+   */
+  findElements(data: any): any[][] {
+    if (!data || typeof data !== 'object' || data instanceof Uint8Array) return []
+    if (Array.isArray(data)) return data.flatMap(item => this.findElements(item))
+    const elems = data['3']?.['1']?.['2']
+    if (data['1'] && data['2'] && elems && typeof elems === 'object') return [Array.isArray(elems) ? elems : [elems]]
+    return Object.values(data).flatMap(value => this.findElements(value))
+  }
+}
@@ -0,0 +1,296 @@
+import { Context, Session, h } from 'koishi'
+import fs from 'fs/promises'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { logger } from './index'
+import { ForwardNode } from './sender'
+import { getTimestamp } from './utils'
+
+/**
+ * OneBot 消息段
+ */
+export interface ForwardSegment {
+  type: string
+  data: Record<string, any>
+}
+
+/**
+ * 导出的转发节点
+ * 嵌套转发以 { type: 'forward', data: { nodes } } 消息段保存
+ */
+export interface ArchivedNode {
+  userId: string
+  nickname: string
+  time: number
+  content: ForwardSegment[]
+}
+
+/**
+ * 转发消息存档
+ */
+export interface ForwardArchiveData {
+  version: number
+  source: string
+  exportedAt: string
+  nodes: ArchivedNode[]
+}
+
+/** 嵌套转发的最大展开深度 */
+const MAX_DEPTH = 5
+
+/**
+ * 合并转发消息存档服务
+ * 将转发消息导出为 JSON 与 Markdown 记录，并可重新构造为转发节点
+ */
+export class ForwardArchive {
+  /**
+   * @param ctx - Koishi上下文
+   * @param dir - 存档目录
+   */
+  constructor(private ctx: Context, private dir: string) {}
+
+  /**
+   * 导出合并转发消息
+   * @param session - 会话对象
+   * @param id - 合并转发ID
+   * @param name - 存档名称，默认按时间生成
+   * @returns 存档名称、消息数与下载的资源数
+   */
+  async export(session: Session, id: string, name: string = `forward_${getTimestamp()}`): Promise<{ name: string, count: number, assets: number }> {
+    const target = this.resolve(name)
+    await fs.mkdir(path.join(target, 'assets'), { recursive: true })
+    const state = { assets: 0, target }
+    const nodes = await this.fetchNodes(session, id, state, 0)
+    const data: ForwardArchiveData = { version: 1, source: id, exportedAt: new Date().toISOString(), nodes }
+    await fs.writeFile(path.join(target, 'forward.json'), JSON.stringify(data, null, 2), 'utf-8')
+    await fs.writeFile(path.join(target, 'transcript.md'), this.renderTranscript(data), 'utf-8')
+    return { name, count: this.countNodes(nodes), assets: state.assets }
+  }
+
+  /**
+   * 读取存档
+   * @param name - 存档名称
+   * @returns 存档数据
+   */
+  async load(name: string): Promise<ForwardArchiveData> {
+    const content = await fs.readFile(path.join(this.resolve(name), 'forward.json'), 'utf-8')
+    const data = JSON.parse(content)
+    if (!Array.isArray(data?.nodes)) throw new Error('无效的转发存档')
+    return data
+  }
+
+  /**
+   * 列出所有存档
+   * @returns 存档名称列表（按名称倒序）
+   */
+  async list(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.dir, { withFileTypes: true })
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort().reverse()
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  /**
+   * 将存档节点转换为转发节点，嵌套转发展开为同级节点
+   * @param name - 存档名称
+   * @param nodes - 存档节点
+   * @returns 转发节点
+   */
+  toForwardNodes(name: string, nodes: ArchivedNode[]): ForwardNode[] {
+    const result: ForwardNode[] = []
+    for (const node of nodes) {
+      const content: h[] = []
+      const nested: ArchivedNode[][] = []
+      for (const segment of node.content) {
+        if (segment.type === 'forward') nested.push(segment.data.nodes || [])
+        else content.push(...this.toElements(name, segment))
+      }
+      if (content.length) result.push({ userId: node.userId, nickname: node.nickname, replyId: null, time: node.time, content })
+      for (const inner of nested) result.push(...this.toForwardNodes(name, inner))
+    }
+    return result
+  }
+
+  /**
+   * 解析存档内的路径，结果必须位于存档目录之下
+   * @param segments - 存档名称及其中的相对路径
+   * @returns 绝对路径
+   */
+  private resolve(...segments: string[]): string {
+    const base = path.resolve(this.dir)
+    const target = path.resolve(base, ...segments)
+    if (!target.startsWith(base + path.sep)) throw new Error(`无效的存档路径: ${segments.join('/')}`)
+    return target
+  }
+
+  /**
+   * 获取并规范化转发节点
+   * @param session - 会话对象
+   * @param id - 合并转发ID
+   * @param state - 导出状态
+   * @param depth - 当前嵌套深度
+   * @param messages - 已内联的转发内容，为空时通过 API 获取
+   * @returns 存档节点
+   */
+  private async fetchNodes(session: Session, id: string, state: { assets: number, target: string }, depth: number, messages?: any[]): Promise<ArchivedNode[]> {
+    messages ??= await session.onebot.getForwardMsg(id) as any[]
+    const nodes: ArchivedNode[] = []
+    for (const message of messages || []) {
+      const raw = message.message ?? message.content
+      const segments: ForwardSegment[] = typeof raw === 'string' ? parseCQCode(raw) : raw || []
+      const content: ForwardSegment[] = []
+      for (const segment of segments) {
+        if (segment.type === 'forward' && depth < MAX_DEPTH) {
+          const inner = Array.isArray(segment.data.content) ? segment.data.content : undefined
+          const innerNodes = await this.fetchNodes(session, segment.data.id, state, depth + 1, inner)
+          content.push({ type: 'forward', data: { id: segment.data.id, nodes: innerNodes } })
+        } else if (['image', 'record', 'video'].includes(segment.type)) {
+          content.push({ type: segment.type, data: { ...segment.data, path: await this.download(segment, state) } })
+        } else {
+          content.push({ type: segment.type, data: { ...segment.data } })
+        }
+      }
+      nodes.push({
+        userId: String(message.sender?.user_id ?? message.user_id ?? ''),
+        nickname: message.sender?.nickname || message.sender?.card || '',
+        time: message.time || 0,
+        content,
+      })
+    }
+    return nodes
+  }
+
+  /**
+   * 下载图片/语音/视频到存档目录
+   * @param segment - 消息段
+   * @param state - 导出状态
+   * @returns 相对存档目录的文件路径，失败时返回undefined
+   */
+  private async download(segment: ForwardSegment, state: { assets: number, target: string }): Promise<string | undefined> {
+    const url = [segment.data.url, segment.data.file].find(value => typeof value === 'string' && /^https?:\/\//.test(value))
+    if (!url) return
+    try {
+      const file = await this.ctx.http.file(url)
+      const ext = path.extname(file.filename || '') || `.${(file.type || '').split('/')[1]?.split(';')[0] || 'bin'}`
+      const relative = `assets/${++state.assets}${ext}`
+      await fs.writeFile(path.join(state.target, relative), Buffer.from(file.data))
+      return relative
+    } catch (e) {
+      logger.warn(`下载转发资源失败: ${url} (${e.message})`)
+    }
+  }
+
+  /**
+   * 将消息段转换为消息元素
+   * @param name - 存档名称
+   * @param segment - 消息段
+   * @returns 消息元素
+   */
+  private toElements(name: string, segment: ForwardSegment): h[] {
+    const { type, data } = segment
+    const src = data.path ? pathToFileURL(this.resolve(name, data.path)).href : data.url
+    switch (type) {
+      case 'text': return [h.text(data.text)]
+      case 'at': return [h.at(data.qq, { name: data.name })]
+      case 'face': return [h('face', { id: data.id })]
+      case 'image': return src ? [h.image(src)] : [h.text('[图片]')]
+      case 'record': return src ? [h.audio(src)] : [h.text('[语音]')]
+      case 'video': return src ? [h.video(src)] : [h.text('[视频]')]
+      case 'reply': return []
+      default: return [h.text(`[${type}]`)]
+    }
+  }
+
+  /**
+   * 统计节点数量（包含嵌套转发）
+   * @param nodes - 存档节点
+   * @returns 节点数量
+   */
+  private countNodes(nodes: ArchivedNode[]): number {
+    return nodes.reduce((count, node) => count + 1 + node.content
+      .filter(segment => segment.type === 'forward')
+      .reduce((sum, segment) => sum + this.countNodes(segment.data.nodes || []), 0), 0)
+  }
+
+  /**
+   * 生成 Markdown 聊天记录
+   * @param data - 存档数据
+   * @returns Markdown 文本
+   */
+  private renderTranscript(data: ForwardArchiveData): string {
+    const lines = [
+      '# 合并转发记录',
+      '',
+      `- 来源: ${data.source}`,
+      `- 导出时间: ${formatDate(new Date(data.exportedAt))}`,
+      `- 消息数: ${this.countNodes(data.nodes)}`,
+      '',
+    ]
+    const render = (nodes: ArchivedNode[], prefix: string) => {
+      for (const node of nodes) {
+        lines.push(`${prefix}**${node.nickname || node.userId}** (${node.userId}) · ${node.time ? formatDate(new Date(node.time * 1000)) : '-'}`, prefix.trimEnd())
+        let text = ''
+        const flush = () => {
+          if (text.trim()) lines.push(...text.trim().split('\n').map(line => `${prefix}${line}`), prefix.trimEnd())
+          text = ''
+        }
+        for (const { type, data } of node.content) {
+          if (type === 'text') text += data.text
+          else if (type === 'at') text += `@${data.name || data.qq}`
+          else if (type === 'face') text += `[表情${data.id}]`
+          else if (type === 'image') text += data.path || data.url ? `![图片](${data.path || data.url})` : '[图片]'
+          else if (type === 'record') text += data.path || data.url ? `[语音](${data.path || data.url})` : '[语音]'
+          else if (type === 'video') text += data.path || data.url ? `[视频](${data.path || data.url})` : '[视频]'
+          else if (type === 'reply') text += `[回复 ${data.id}] `
+          else if (type === 'forward') {
+            flush()
+            lines.push(`${prefix}> 合并转发 (${this.countNodes(data.nodes || [])} 条)`, `${prefix}>`)
+            render(data.nodes || [], `${prefix}> `)
+          } else text += `[${type}]`
+        }
+        flush()
+      }
+    }
+    render(data.nodes, '')
+    return lines.join('\n') + '\n'
+  }
+}
+
+/**
+ * 格式化日期为 YYYY-MM-DD HH:mm:ss
+ * @param date - 日期
+ * @returns 格式化后的字符串
+ */
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${
+    pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+/**
+ * 解析 CQ 码字符串为消息段
+ * @param source - CQ 码字符串
+ * @returns 消息段数组
+ */
+function parseCQCode(source: string): ForwardSegment[] {
+  const unescape = (s: string) => s.replace(/&#91;/g, '[').replace(/&#93;/g, ']').replace(/&#44;/g, ',').replace(/&amp;/g, '&')
+  const segments: ForwardSegment[] = []
+  const pattern = /\[CQ:(\w+)((?:,[^\]]*)?)\]/g
+  let last = 0
+  let match: RegExpExecArray
+  while ((match = pattern.exec(source))) {
+    if (match.index > last) segments.push({ type: 'text', data: { text: unescape(source.slice(last, match.index)) } })
+    const data: Record<string, string> = {}
+    for (const pair of match[2].slice(1).split(',').filter(Boolean)) {
+      const index = pair.indexOf('=')
+      data[pair.slice(0, index)] = unescape(pair.slice(index + 1))
+    }
+    segments.push({ type: match[1], data })
+    last = pattern.lastIndex
+  }
+  if (last < source.length) segments.push({ type: 'text', data: { text: unescape(source.slice(last)) } })
+  return segments
+}
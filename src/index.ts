@@ -6,6 +6,12 @@ import { formatInspect } from './utils'
 import { Onebot } from './onebot'
 import { Sender } from './sender'
 import { ProtobufEncoder } from './protobuf'
+import { ProtoSchema } from './schema'
+import { TemplateRegistry } from './template'
+import { PacketJournal } from './journal'
+import { ForwardArchive } from './forward'
+import { StorageConfig } from './storage'
+import { DatabaseTransfer, MigrateTarget } from './transfer'
 
 export const name = 'dev-tool'
 export const inject = ['database']
@@ -30,12 +36,37 @@ export const usage = `
  */
 export interface Config {
   enableOnebot: boolean
+  protoDir: string
+  templateFile: string
+  packetJournal: boolean
+  forwardDir: string
   tables: string[]
   autoBackup: boolean
-  interval: number
+  schedules: {
+    cron: string
+    storage: string
+  }[]
+  storages: StorageConfig[]
+  migrateTargets: MigrateTarget[]
+  includeTables: string[]
+  excludeTables: string[]
+  rowFilters: {
+    table: string
+    filter: string
+  }[]
+  includePaths: string[]
   dir: string
-  keepBackups: number
+  keepDaily: number
+  keepWeekly: number
+  keepMonthly: number
+  /** @deprecated 使用 schedules */
+  interval?: number
+  /** @deprecated 使用 keepDaily、keepWeekly 与 keepMonthly */
+  keepBackups?: number
   singleFile: boolean
+  batchSize: number
+  compression: 'none' | 'gzip' | 'brotli'
+  passphrase: string
   logAllEvents: boolean
   logFilterMode: 'whitelist' | 'blacklist'
   logFilters: {
@@ -50,15 +81,73 @@ export interface Config {
 export const Config: Schema<Config> = Schema.intersect([
   Schema.object({
     enableOnebot: Schema.boolean().description('注册 OneBot 相关工具').default(true),
+    protoDir: Schema.string().description('Protobuf 定义文件目录（.proto/.json）').default('./data/proto'),
+    templateFile: Schema.string().description('PB 数据包模板文件（JSON/YAML），同名模板覆盖内置模板'),
+    packetJournal: Schema.boolean().description('将 send_packet 调用记录到数据库').default(false),
+    forwardDir: Schema.string().description('合并转发存档目录').default('./data/forward'),
   }).description('开关配置'),
   Schema.object({
     autoBackup: Schema.boolean().description('启用数据库定时备份').default(false),
     singleFile: Schema.boolean().description('将所有表备份到单个文件').default(false),
-    interval: Schema.number().description('自动备份间隔（小时）').default(24).min(1),
-    keepBackups: Schema.number().description('保留的备份文件数量（0为不限制）').default(7).min(0),
+    schedules: Schema.array(Schema.object({
+      cron: Schema.string().description('时间表达式（cron 或 "HH:MM daily"）').required(),
+      storage: Schema.string().description('存储名称（local 为本地目录）').default('local'),
+    })).role('table').description('定时备份计划').default([{ cron: '03:00 daily', storage: 'local' }]),
+    keepDaily: Schema.number().description('按天保留的备份数量').default(7).min(0),
+    keepWeekly: Schema.number().description('按周保留的备份数量').default(4).min(0),
+    keepMonthly: Schema.number().description('按月保留的备份数量（均为0时不清理）').default(6).min(0),
     dir: Schema.string().description('备份文件存储目录').default('./data/backups'),
+    batchSize: Schema.number().description('备份与恢复时每批处理的行数').default(1000).min(1),
+    compression: Schema.union(['none', 'gzip', 'brotli']).description('备份文件压缩方式').default('none'),
+    passphrase: Schema.string().role('secret').description('备份加密密码（AES-256-GCM），留空则不加密'),
     tables: Schema.array(String).description('需要处理的特殊表名（例如包含大写字母的表）'),
+    includeTables: Schema.array(String).description('备份的表（支持通配符，留空为全部）').default([]),
+    excludeTables: Schema.array(String).description('不备份的表（支持通配符，如 message*）').default([]),
+    rowFilters: Schema.array(Schema.object({
+      table: Schema.string().description('表名（支持通配符）').required(),
+      filter: Schema.string().description('过滤条件(JSON)，时间可写为 now-30d').required(),
+    })).role('table').description('按表过滤备份的行').default([]),
+    includePaths: Schema.array(String).description('同时备份的文件（相对实例目录，支持通配符，如 data/assets/**）').default([]),
   }).description('备份配置'),
+  Schema.object({
+    storages: Schema.array(Schema.intersect([
+      Schema.object({
+        name: Schema.string().description('存储名称').required(),
+        type: Schema.union(['local', 's3', 'webdav']).description('存储类型').default('local'),
+      }),
+      Schema.union([
+        Schema.object({
+          type: Schema.const('local'),
+          path: Schema.string().description('备份目录').required(),
+        }),
+        Schema.object({
+          type: Schema.const('s3').required(),
+          endpoint: Schema.string().description('服务地址（如 https://s3.amazonaws.com）').required(),
+          region: Schema.string().description('区域').default('us-east-1'),
+          bucket: Schema.string().description('存储桶').required(),
+          accessKeyId: Schema.string().description('Access Key ID').required(),
+          secretAccessKey: Schema.string().role('secret').description('Secret Access Key').required(),
+          prefix: Schema.string().description('对象键前缀').default(''),
+          pathStyle: Schema.boolean().description('使用路径形式访问存储桶').default(true),
+          timeout: Schema.natural().role('ms').description('请求超时时间').default(60000),
+        }),
+        Schema.object({
+          type: Schema.const('webdav').required(),
+          url: Schema.string().description('备份目录 URL').required(),
+          username: Schema.string().description('用户名'),
+          password: Schema.string().role('secret').description('密码'),
+          timeout: Schema.natural().role('ms').description('请求超时时间').default(60000),
+        }),
+      ]),
+    ])).description('额外的备份存储，在命令（-s）与定时计划中按名称选择').default([]),
+  }).description('存储配置'),
+  Schema.object({
+    migrateTargets: Schema.array(Schema.object({
+      name: Schema.string().description('目标名称').required(),
+      driver: Schema.string().description('驱动（如 sqlite、mysql、postgres，或完整包名）').required(),
+      options: Schema.dict(Schema.any()).description('连接选项，与对应数据库插件的配置相同').default({}),
+    })).description('db.migrate 的目标数据库').default([]),
+  }).description('迁移配置'),
   Schema.object({
     logAllEvents: Schema.boolean().description('启用事件捕持').default(false),
     logFilterMode: Schema.union(['whitelist', 'blacklist']).description('过滤模式').default('whitelist'),
@@ -82,6 +171,7 @@ export function apply(ctx: Context, config: Config) {
   // 初始化数据库命令并注册备份命令
   dbService.initialize();
   backupService.registerBackupCommands(dbService.Command);
+  new DatabaseTransfer(ctx, config).registerTransferCommands(dbService.Command);
 
   const ins = ctx.command('inspect', '查看详细信息')
 
@@ -177,8 +267,26 @@ export function apply(ctx: Context, config: Config) {
   if (config.enableOnebot) {
     const onebot = ctx.command('onebot', 'Onebot 工具')
     new Onebot().registerCommands(onebot)
-    const encoder = new ProtobufEncoder()
-    const Send = new Sender(encoder)
+    const schema = new ProtoSchema(config.protoDir)
+    const templates = new TemplateRegistry(config.templateFile)
+    ctx.on('ready', async () => {
+      try {
+        const count = await schema.load()
+        if (count) logger.info(`已加载 Protobuf 定义 (${count} 个文件/${schema.messages.size} 个消息)`)
+      } catch (e) {
+        logger.warn(`加载 Protobuf 定义失败: ${e.message}`)
+      }
+      try {
+        const count = await templates.load()
+        if (count) logger.info(`已加载 PB 模板 (${count} 个)`)
+      } catch (e) {
+        logger.warn(`加载 PB 模板失败: ${e.message}`)
+      }
+    })
+    const encoder = new ProtobufEncoder(schema)
+    const journal = config.packetJournal ? new PacketJournal(ctx) : undefined
+    const archive = new ForwardArchive(ctx, config.forwardDir)
+    const Send = new Sender(encoder, schema, templates, journal, archive)
     Send.registerPacketCommands(onebot)
   }
 
@@ -0,0 +1,103 @@
+import { $, Context, Session } from 'koishi'
+import { logger } from './index'
+
+declare module 'koishi' {
+  interface Tables {
+    dev_packet: PacketRecord
+  }
+}
+
+/**
+ * 数据包记录
+ */
+export interface PacketRecord {
+  id: number
+  cmd: string
+  request: string
+  response: string
+  decoded: string
+  error: string
+  latency: number
+  platform: string
+  selfId: string
+  guildId: string
+  channelId: string
+  userId: string
+  time: Date
+}
+
+/**
+ * send_packet 数据包记录服务
+ * 记录每次调用的命令、请求、响应与会话信息，用于浏览和重放
+ */
+export class PacketJournal {
+  /**
+   * @param ctx - Koishi上下文
+   */
+  constructor(private ctx: Context) {
+    ctx.model.extend('dev_packet', {
+      id: 'unsigned',
+      cmd: 'string',
+      request: 'text',
+      response: 'text',
+      decoded: 'text',
+      error: 'text',
+      latency: 'unsigned',
+      platform: 'string',
+      selfId: 'string',
+      guildId: 'string',
+      channelId: 'string',
+      userId: 'string',
+      time: 'timestamp',
+    }, { autoInc: true })
+  }
+
+  /**
+   * 记录一次调用，失败时仅输出警告
+   * @param session - 会话对象
+   * @param data - 调用信息
+   */
+  async record(session: Session, data: Pick<PacketRecord, 'cmd' | 'request' | 'response' | 'decoded' | 'error' | 'latency'>): Promise<void> {
+    try {
+      await this.ctx.database.create('dev_packet', {
+        ...data,
+        platform: session.platform,
+        selfId: session.selfId,
+        guildId: session.guildId || '',
+        channelId: session.channelId || '',
+        userId: session.userId || '',
+        time: new Date(),
+      })
+    } catch (e) {
+      logger.warn(`记录数据包失败: ${e.message}`)
+    }
+  }
+
+  /**
+   * 分页获取记录（按时间倒序）
+   * @param page - 页码
+   * @param pageSize - 每页数量
+   * @param cmd - 按命令名过滤（包含匹配）
+   * @returns 当前页记录与总数
+   */
+  async list(page: number, pageSize: number = 10, cmd?: string): Promise<{ rows: PacketRecord[], total: number }> {
+    const query = cmd ? { cmd: { $regex: new RegExp(cmd.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')) } } : {}
+    const total = await this.ctx.database.eval('dev_packet', row => $.count(row.id), query)
+    const rows = await this.ctx.database.get('dev_packet', query, {
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+      sort: { id: 'desc' },
+    })
+    return { rows, total }
+  }
+
+  /**
+   * 获取单条记录
+   * @param id - 记录ID
+   * @returns 记录，不存在时返回undefined
+   */
+  async get(id: number): Promise<PacketRecord | undefined> {
+    const [row] = await this.ctx.database.get('dev_packet', { id })
+    return row
+  }
+}
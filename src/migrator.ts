@@ -0,0 +1,208 @@
+import { getFieldType } from './utils'
+
+/**
+ * 字段变化
+ */
+export interface FieldChange {
+  type: 'added' | 'removed' | 'retyped' | 'renamed' | 'mapped' | 'failed'
+  field: string
+  /** 重命名或映射的目标字段 */
+  target?: string
+  /** 备份中的类型 */
+  from?: string
+  /** 当前模型中的类型 */
+  to?: string
+  /** 转换失败的行数 */
+  count?: number
+}
+
+const NUMBER_TYPES = ['integer', 'unsigned', 'float', 'double', 'decimal', 'bigint', 'primary']
+const STRING_TYPES = ['char', 'string', 'text']
+const TIME_TYPES = ['timestamp', 'date', 'time']
+
+/**
+ * 解析字段映射参数
+ * 格式为 `旧字段:新字段` 或 `表名.旧字段:新字段`，多个映射以逗号分隔
+ * @param input - 映射参数
+ * @returns 表名到字段映射的字典，`*` 表示适用于所有表
+ */
+export function parseFieldMapping(input?: string): Record<string, Record<string, string>> {
+  const result: Record<string, Record<string, string>> = {}
+  for (const pair of (input || '').split(',').map(s => s.trim()).filter(Boolean)) {
+    const [from, to] = pair.split(':').map(s => s.trim())
+    if (!from || !to) throw new Error(`无效的字段映射: ${pair}`)
+    const dot = from.lastIndexOf('.')
+    const table = dot === -1 ? '*' : from.slice(0, dot)
+    ;(result[table] ??= {})[dot === -1 ? from : from.slice(dot + 1)] = to
+  }
+  return result
+}
+
+/**
+ * 按字段类型转换值
+ * @param value - 原值
+ * @param type - 当前模型中的字段类型
+ * @returns 是否转换成功及转换后的值
+ */
+export function coerceValue(value: any, type: string): { ok: boolean, value?: any } {
+  if (value === null || value === undefined) return { ok: true, value }
+  if (NUMBER_TYPES.includes(type)) {
+    if (typeof value === 'number') return { ok: true, value }
+    if (typeof value === 'boolean') return { ok: true, value: +value }
+    if (value instanceof Date) return { ok: true, value: value.getTime() }
+    if (typeof value === 'string' && value.trim() && !isNaN(+value)) return { ok: true, value: +value }
+    return { ok: false }
+  }
+  if (STRING_TYPES.includes(type)) {
+    if (typeof value === 'string') return { ok: true, value }
+    if (value instanceof Date) return { ok: true, value: value.toISOString() }
+    if (typeof value === 'object') return { ok: true, value: JSON.stringify(value) }
+    return { ok: true, value: String(value) }
+  }
+  if (TIME_TYPES.includes(type)) {
+    if (value instanceof Date) return { ok: true, value }
+    if (typeof value !== 'string' && typeof value !== 'number') return { ok: false }
+    const date = new Date(typeof value === 'string' && /^\d+$/.test(value) ? +value : value)
+    return isNaN(date.getTime()) ? { ok: false } : { ok: true, value: date }
+  }
+  if (type === 'boolean') {
+    if (typeof value === 'boolean') return { ok: true, value }
+    if (typeof value === 'number') return { ok: true, value: value !== 0 }
+    if (['true', '1'].includes(String(value).toLowerCase())) return { ok: true, value: true }
+    if (['false', '0', ''].includes(String(value).toLowerCase())) return { ok: true, value: false }
+    return { ok: false }
+  }
+  if (type === 'json') {
+    if (typeof value !== 'string' || !/^\s*[\[{]/.test(value)) return { ok: true, value }
+    try {
+      return { ok: true, value: JSON.parse(value) }
+    } catch {
+      return { ok: true, value }
+    }
+  }
+  if (type === 'list') {
+    if (Array.isArray(value)) return { ok: true, value }
+    if (typeof value === 'string') return { ok: true, value: value ? value.split(',') : [] }
+    return { ok: false }
+  }
+  if (type === 'binary' && typeof value?.$binary === 'string') {
+    const buffer = Buffer.from(value.$binary, 'base64')
+    return { ok: true, value: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) }
+  }
+  if (type === 'binary' && value?.type === 'Buffer' && Array.isArray(value.data)) {
+    return { ok: true, value: Buffer.from(value.data) }
+  }
+  return { ok: true, value }
+}
+
+/**
+ * 备份数据的字段迁移器
+ * 对比备份时与当前模型的字段，按映射重命名、删除已移除字段并转换类型
+ */
+export class SchemaMigrator {
+  /** 备份时的字段类型，未知时为空字符串 */
+  private backupFields: Record<string, string>
+  private mapping: Record<string, string>
+  private failed: Record<string, number> = {}
+  private changes: FieldChange[] = []
+
+  /**
+   * @param current - 当前模型的字段定义，表没有模型时为空
+   * @param backup - 备份清单中的字段定义，为空时根据首行数据推断
+   * @param mapping - 字段映射（旧字段 → 新字段）
+   * @param sample - 备份中的首行数据
+   */
+  constructor(private current: Record<string, any> | undefined, backup: Record<string, any> | undefined, mapping: Record<string, string>, sample: any) {
+    this.backupFields = backup
+      ? Object.fromEntries(Object.entries(backup).map(([name, field]) => [name, getFieldType(field)]))
+      : Object.fromEntries(Object.keys(sample || {}).map(name => [name, '']))
+    this.mapping = mapping
+    if (current) this.analyze()
+  }
+
+  /**
+   * 对比字段定义
+   */
+  private analyze(): void {
+    const currentTypes: Record<string, string> = Object.fromEntries(Object.entries(this.current)
+      .filter(([, field]) => field && !field.deprecated)
+      .map(([name, field]) => [name, getFieldType(field)]))
+    const mapped = new Set<string>()
+    for (const [from, to] of Object.entries(this.mapping)) {
+      if (!(from in this.backupFields)) continue
+      this.changes.push({ type: 'mapped', field: from, target: to })
+      mapped.add(from)
+      mapped.add(to)
+    }
+    const removed = Object.keys(this.backupFields).filter(name => !(name in currentTypes) && !mapped.has(name))
+    const added = Object.keys(currentTypes).filter(name => !(name in this.backupFields) && !mapped.has(name))
+    for (const name of removed) this.changes.push({ type: 'removed', field: name, from: this.backupFields[name] })
+    for (const name of added) this.changes.push({ type: 'added', field: name, to: currentTypes[name] })
+    for (const [name, type] of Object.entries(this.backupFields)) {
+      if (name in currentTypes && type && type !== currentTypes[name]) {
+        this.changes.push({ type: 'retyped', field: name, from: type, to: currentTypes[name] })
+      }
+    }
+    // 仅删除和新增各一个且类型一致的字段时提示可能为重命名
+    if (removed.length === 1 && added.length === 1) {
+      const type = this.backupFields[removed[0]]
+      if (!type || type === currentTypes[added[0]]) {
+        this.changes.push({ type: 'renamed', field: removed[0], target: added[0] })
+      }
+    }
+  }
+
+  /**
+   * 迁移一行数据
+   * @param row - 备份中的行
+   * @returns 符合当前模型的行
+   */
+  migrate(row: any): any {
+    if (!this.current) return row
+    const result: any = {}
+    for (const [key, value] of Object.entries(row)) {
+      const name = this.mapping[key] || key
+      const field = this.current[name]
+      if (!field || field.deprecated) continue
+      const type = getFieldType(field)
+      // 二进制在备份中序列化为 {$binary: Base64}（旧版为 {type: 'Buffer', data}），类型相同也需要还原
+      if (this.backupFields[key] === type && type !== 'binary') {
+        result[name] = value
+        continue
+      }
+      const coerced = coerceValue(value, type)
+      if (coerced.ok) result[name] = coerced.value
+      else this.failed[name] = (this.failed[name] || 0) + 1
+    }
+    return result
+  }
+
+  /**
+   * 获取字段变化（包含转换失败统计）
+   * @returns 字段变化列表
+   */
+  getChanges(): FieldChange[] {
+    return [
+      ...this.changes,
+      ...Object.entries(this.failed).map(([field, count]): FieldChange => ({ type: 'failed', field, count })),
+    ]
+  }
+
+  /**
+   * 格式化字段变化
+   * @param changes - 字段变化列表
+   * @returns 每项一行的说明
+   */
+  static format(changes: FieldChange[]): string[] {
+    return changes.map(change => {
+      switch (change.type) {
+        case 'added': return `+ ${change.field} (${change.to})，使用默认值`
+        case 'removed': return `- ${change.field}${change.from ? ` (${change.from})` : ''}，将被丢弃`
+        case 'retyped': return `~ ${change.field}: ${change.from} → ${change.to}`
+        case 'renamed': return `? ${change.field} → ${change.target} 可能为重命名，可使用 --map ${change.field}:${change.target}`
+        case 'mapped': return `→ ${change.field} → ${change.target}`
+        case 'failed': return `! ${change.field}: ${change.count} 行无法转换，已跳过该字段（保留现有值，新行使用默认值）`
+      }
+    })
+  }
+}
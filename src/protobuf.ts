@@ -1,27 +1,70 @@
+import { ProtoField, ProtoMessage, ProtoSchema, SCALAR_WIRE_TYPES } from './schema'
+
+/**
+ * 解码选项
+ */
+export interface DecodeOptions {
+  /** 消息类型名 */
+  type?: string
+  /** 输出每个字段的候选解释 */
+  annotate?: boolean
+  /** 输出按字节标注的文本 */
+  dump?: boolean
+}
+
+/**
+ * wire type 名称
+ */
+const WIRE_NAMES = ['varint', 'i64', 'len', 'sgroup', 'egroup', 'i32']
+
+/**
+ * 带显式类型的值，用于指定无定义时的编码方式
+ * JSON 中以 {"$类型": 值} 表示，如 {"$fixed32": 1}、{"$double": 1.5}、{"$packed:sint32": [1, -1]}
+ */
+export class TypedValue {
+  constructor(public type: string, public value: any) {}
+
+  toJSON(): any {
+    return { [`$${this.type}`]: this.value }
+  }
+}
+
 /**
  * Protobuf编码解码器
  * 用于处理JavaScript对象与protobuf二进制数据之间的转换
  */
 export class ProtobufEncoder {
+  /**
+   * @param schema - 可选的 Protobuf 定义集合，用于按消息类型编解码
+   */
+  constructor(private schema?: ProtoSchema) {}
+
   /**
    * 将JavaScript对象编码为protobuf二进制格式
    * @param obj - 要编码的对象
+   * @param type - 消息类型名，提供时按字段名编码
    * @returns 编码后的二进制数据
    */
-  encode(obj: any): Uint8Array {
+  encode(obj: any, type?: string): Uint8Array {
     const buffer: number[] = []
-    for (const tag of Object.keys(obj).sort((a, b) => parseInt(a) - parseInt(b))) this._encode(buffer, parseInt(tag), obj[tag])
+    if (type) {
+      this._encodeMessage(buffer, this._lookup(type), obj)
+    } else {
+      for (const tag of Object.keys(obj).sort((a, b) => parseInt(a) - parseInt(b))) this._encode(buffer, parseInt(tag), obj[tag])
+    }
     return new Uint8Array(buffer)
   }
 
   /**
    * 将protobuf二进制数据解码为JavaScript对象
    * @param data - 要解码的二进制数据，支持Uint8Array、Buffer或十六进制字符串
+   * @param type - 消息类型名，提供时输出字段名与对应类型的值
    * @returns 解码后的对象
    */
-  decode(data: Uint8Array | Buffer | string): any {
+  decode(data: Uint8Array | Buffer | string, type?: string): any {
     if (typeof data === 'string') data = Buffer.from(data, 'hex')
     if (!(data instanceof Uint8Array)) data = new Uint8Array(data)
+    if (type) return this._decodeMessage(data, this._lookup(type))
     const result: any = {}
     let offset = 0
     while (offset < data.length) {
@@ -34,6 +77,342 @@ export class ProtobufEncoder {
     return result
   }
 
+  /**
+   * 查找消息定义
+   * @private
+   * @param type - 消息类型名
+   * @returns 消息定义
+   */
+  private _lookup(type: string): ProtoMessage {
+    const message = this.schema?.lookup(type)
+    if (!message) throw new Error(`Unknown message type: ${type}`)
+    return message
+  }
+
+  /**
+   * 按消息定义解码
+   * @private
+   * @param data - 要解码的数据
+   * @param message - 消息定义
+   * @returns 以字段名为键的对象，未定义的字段保留数字标签
+   */
+  private _decodeMessage(data: Uint8Array, message: ProtoMessage): any {
+    const result: any = {}
+    let offset = 0
+    while (offset < data.length) {
+      const { value: key, nextOffset: keyOffset } = this._readSize(data, offset)
+      const tag = key >>> 3
+      const wireType = key & 7
+      const field = message.fields.find(f => f.id === tag)
+      if (!field) {
+        const { value, nextOffset } = this._decodeField(data, offset)
+        result[tag] = tag in result ? [].concat(result[tag], [value]) : value
+        offset = nextOffset
+        continue
+      }
+      const { raw, nextOffset } = this._readRaw(data, keyOffset, wireType)
+      const values = this._decodeTyped(field, wireType, raw)
+      if (field.repeated) {
+        result[field.name] = (result[field.name] || []).concat(values)
+      } else {
+        result[field.name] = values[values.length - 1]
+      }
+      offset = nextOffset
+    }
+    for (const field of message.fields) {
+      if (field.map) result[field.name] = this._toMapObject(field, result[field.name] || [])
+      else if (field.repeated && !(field.name in result)) result[field.name] = []
+    }
+    return result
+  }
+
+  /**
+   * 将 map 字段的 Entry 列表转换为对象，省略的键和值取类型默认值
+   * @private
+   * @param field - map 字段定义
+   * @param entries - 解码后的 Entry 列表
+   * @returns 以键为属性的对象
+   */
+  private _toMapObject(field: ProtoField, entries: any[]): Record<string, any> {
+    const [key, value] = ['key', 'value'].map(name => this.schema.lookup(field.resolved)?.fields.find(item => item.name === name))
+    const empty = (item: ProtoField) => item?.resolved && !this.schema.getEnum(item.resolved) ? {}
+      : item?.type === 'string' ? '' : item?.type === 'bytes' ? Buffer.alloc(0) : item?.type === 'bool' ? false : 0
+    return Object.fromEntries(entries.map(entry => [String(entry.key ?? empty(key)), entry.value ?? empty(value)]))
+  }
+
+  /**
+   * 将对象形式的 map 字段转换为 Entry 列表，数组形式保持不变
+   * @private
+   * @param field - map 字段定义
+   * @param value - 字段值
+   * @returns Entry 列表
+   */
+  private _fromMapObject(field: ProtoField, value: any): any {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value
+    const keyType = this._mapKeyType(field)
+    return Object.entries(value).map(([key, item]) => ({ key: keyType === 'bool' ? key === 'true' : key, value: item }))
+  }
+
+  /**
+   * 获取 map 字段的键类型
+   * @private
+   * @param field - map 字段定义
+   * @returns 键的标量类型
+   */
+  private _mapKeyType(field: ProtoField): string {
+    return this.schema.lookup(field.resolved)?.fields.find(item => item.name === 'key')?.type
+  }
+
+  /**
+   * 读取字段的原始值
+   * @private
+   * @param data - 要读取的数据
+   * @param offset - 字段值的起始偏移
+   * @param wireType - 字段的 wire type
+   * @returns 原始值（varint 为数字，其余为字节）和下一个偏移位置
+   */
+  private _readRaw(data: Uint8Array, offset: number, wireType: number): { raw: any, nextOffset: number } {
+    switch (wireType) {
+      case 0: {
+        const { value, nextOffset } = this._readVarint(data, offset)
+        return { raw: value, nextOffset }
+      }
+      case 1:
+      case 5: {
+        const size = wireType === 1 ? 8 : 4
+        if (offset + size > data.length) throw new Error('Invalid fixed-width field')
+        return { raw: data.slice(offset, offset + size), nextOffset: offset + size }
+      }
+      case 2: {
+        const { value: length, nextOffset: start } = this._readSize(data, offset)
+        if (start + length > data.length) throw new Error('Invalid length-delimited field')
+        return { raw: data.slice(start, start + length), nextOffset: start + length }
+      }
+      default:
+        throw new Error(`Unsupported wire type: ${wireType}`)
+    }
+  }
+
+  /**
+   * 按字段定义解释原始值
+   * @private
+   * @param field - 字段定义
+   * @param wireType - 实际的 wire type
+   * @param raw - 原始值
+   * @returns 解码后的值列表（packed 字段可能包含多个值）
+   */
+  private _decodeTyped(field: ProtoField, wireType: number, raw: any): any[] {
+    const enumType = field.resolved && this.schema.getEnum(field.resolved)
+    const scalarType = enumType ? 'int32' : field.type
+    if (field.resolved && !enumType) {
+      if (wireType !== 2) throw new Error(`Wire type ${wireType} mismatch for field ${field.name} (${field.type})`)
+      return [this.decode(raw, field.resolved)]
+    }
+    const expected = SCALAR_WIRE_TYPES[scalarType]
+    let values: any[]
+    if (wireType === 2 && expected !== 2) {
+      values = this._readPacked(raw, scalarType)
+    } else if (wireType !== expected) {
+      throw new Error(`Wire type ${wireType} mismatch for field ${field.name} (${field.type})`)
+    } else {
+      values = [this._decodeScalar(scalarType, raw)]
+    }
+    if (!enumType) return values
+    return values.map(value => Object.keys(enumType.values).find(key => enumType.values[key] === value) ?? value)
+  }
+
+  /**
+   * 读取 packed 编码的重复标量
+   * @private
+   * @param raw - 字段的字节数据
+   * @param type - 元素的标量类型
+   * @returns 解码后的值列表
+   */
+  private _readPacked(raw: Uint8Array, type: string): any[] {
+    const values = []
+    let offset = 0
+    while (offset < raw.length) {
+      const { raw: item, nextOffset } = this._readRaw(raw, offset, SCALAR_WIRE_TYPES[type])
+      values.push(this._decodeScalar(type, item))
+      offset = nextOffset
+    }
+    return values
+  }
+
+  /**
+   * 解码并列出每个字段所有可能的解释
+   * @param data - 要解码的二进制数据，支持Uint8Array、Buffer或十六进制字符串
+   * @returns 以标签为键、候选解释为值的对象
+   */
+  annotate(data: Uint8Array | Buffer | string): any {
+    if (typeof data === 'string') data = Buffer.from(data, 'hex')
+    if (!(data instanceof Uint8Array)) data = new Uint8Array(data)
+    const result: any = {}
+    let offset = 0
+    while (offset < data.length) {
+      const { value: key, nextOffset: keyOffset } = this._readSize(data, offset)
+      const { raw, nextOffset } = this._readRaw(data, keyOffset, key & 7)
+      const tag = key >>> 3
+      if (!result[tag]) result[tag] = []
+      result[tag].push(this._candidates(key & 7, raw))
+      offset = nextOffset
+    }
+    for (const key in result) if (result[key].length === 1) result[key] = result[key][0]
+    return result
+  }
+
+  /**
+   * 生成按字节标注的解码文本
+   * 每行包含偏移、标签、wire type、长度、原始十六进制和所选解释，嵌套消息缩进显示
+   * @param data - 要解码的二进制数据，支持Uint8Array、Buffer或十六进制字符串
+   * @param type - 消息类型名，提供时显示字段名并按定义解释
+   * @returns 标注文本
+   */
+  dump(data: Uint8Array | Buffer | string, type?: string): string {
+    if (typeof data === 'string') data = Buffer.from(data, 'hex')
+    if (!(data instanceof Uint8Array)) data = new Uint8Array(data)
+    const lines: string[] = [`offset field wire len | hex | value (${data.length} bytes)`]
+    this._dump(data, type ? this._lookup(type) : undefined, 0, 0, lines)
+    return lines.join('\n')
+  }
+
+  /**
+   * 逐字段生成标注行
+   * @private
+   * @param data - 当前消息的数据
+   * @param message - 消息定义
+   * @param base - 当前消息在整个数据中的偏移
+   * @param depth - 嵌套深度
+   * @param lines - 输出行
+   */
+  private _dump(data: Uint8Array, message: ProtoMessage | undefined, base: number, depth: number, lines: string[]): void {
+    let offset = 0
+    while (offset < data.length) {
+      const start = offset
+      const { value: key, nextOffset: keyOffset } = this._readSize(data, offset)
+      const tag = key >>> 3
+      const wireType = key & 7
+      const { raw, nextOffset } = this._readRaw(data, keyOffset, wireType)
+      const field = message?.fields.find(f => f.id === tag)
+      const valueStart = wireType === 2 ? nextOffset - raw.length : keyOffset
+      let value: string
+      let nested: ProtoMessage | null = null
+      if (field?.resolved && !this.schema.getEnum(field.resolved) && wireType === 2) {
+        nested = this._lookup(field.resolved)
+        value = nested.name
+      } else if (field) {
+        try {
+          value = `${field.type} ${this._decodeTyped(field, wireType, raw).map(formatDumpValue).join(', ')}`
+        } catch (e) {
+          value = `! ${e.message}`
+        }
+      } else if (wireType === 0) {
+        value = `${raw}`
+      } else if (wireType === 1 || wireType === 5) {
+        const bits = wireType === 1 ? 64 : 32
+        value = `fixed${bits} ${this._decodeScalar(`fixed${bits}`, raw)} / ${bits === 64 ? 'double' : 'float'} ${this._decodeScalar(bits === 64 ? 'double' : 'float', raw)}`
+      } else {
+        value = this._guessLength(raw)
+      }
+      const name = field ? `${field.name}(${tag})` : `${tag}`
+      lines.push(`${'  '.repeat(depth)}${(base + start).toString(16).padStart(4, '0')} ${name} ${WIRE_NAMES[wireType]} ${nextOffset - valueStart} | ${formatHex(data.subarray(start, nextOffset))} | ${value}`)
+      if (nested || value === 'message') this._dump(raw, nested, base + valueStart, depth + 1, lines)
+      offset = nextOffset
+    }
+  }
+
+  /**
+   * 推测长度分隔字段的含义
+   * @private
+   * @param raw - 字段数据
+   * @returns "message"、带引号的字符串或 "bytes"
+   */
+  private _guessLength(raw: Uint8Array): string {
+    if (!raw.length) return 'empty'
+    try {
+      this.decode(raw)
+      return 'message'
+    } catch {}
+    try {
+      return JSON.stringify(new TextDecoder('utf-8', { fatal: true }).decode(raw))
+    } catch {}
+    return 'bytes'
+  }
+
+  /**
+   * 列出原始值的候选解释
+   * @private
+   * @param wireType - 字段的 wire type
+   * @param raw - 原始值
+   * @returns 候选解释，键为类型名
+   */
+  private _candidates(wireType: number, raw: any): Record<string, any> {
+    const candidates: Record<string, any> = {}
+    const add = (type: string, value: any) => {
+      if (!Object.values(candidates).some(v => v === value)) candidates[type] = value
+    }
+    switch (wireType) {
+      case 0:
+        add('uint', raw)
+        add('int', this._decodeScalar('int64', raw))
+        candidates.sint = this._decodeScalar('sint64', raw)
+        break
+      case 1:
+      case 5: {
+        const bits = wireType === 1 ? 64 : 32
+        add(`fixed${bits}`, this._decodeScalar(`fixed${bits}`, raw))
+        add(`sfixed${bits}`, this._decodeScalar(`sfixed${bits}`, raw))
+        candidates[bits === 64 ? 'double' : 'float'] = this._decodeScalar(bits === 64 ? 'double' : 'float', raw)
+        candidates.hex = Buffer.from(raw).toString('hex')
+        break
+      }
+      case 2:
+        candidates.length = raw.length
+        if (raw.length) {
+          try { candidates.message = this.annotate(raw) } catch {}
+          try {
+            const text = new TextDecoder('utf-8', { fatal: true }).decode(raw)
+            if (!/[\x00-\x08\x0B\x0C\x0E-\x1F]/.test(text)) candidates.string = text
+          } catch {}
+          try { candidates.packed = this._readPacked(raw, 'uint64') } catch {}
+        }
+        candidates.hex = Buffer.from(raw).toString('hex')
+        break
+    }
+    return candidates
+  }
+
+  /**
+   * 解码标量值
+   * @private
+   * @param type - 标量类型
+   * @param raw - 原始值
+   * @returns 解码后的值
+   */
+  private _decodeScalar(type: string, raw: any): any {
+    switch (type) {
+      case 'int32': return Number(BigInt.asIntN(32, BigInt(raw)))
+      case 'uint32': return Number(BigInt.asUintN(32, BigInt(raw)))
+      case 'int64': return toSafeNumber(BigInt.asIntN(64, BigInt(raw)))
+      case 'uint64': return raw
+      case 'sint32':
+      case 'sint64': return toSafeNumber(zigzagDecode(BigInt(raw)))
+      case 'bool': return BigInt(raw) !== 0n
+      case 'string': return new TextDecoder('utf-8').decode(raw)
+      case 'bytes': return Buffer.from(raw)
+    }
+    const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength)
+    switch (type) {
+      case 'fixed32': return view.getUint32(0, true)
+      case 'sfixed32': return view.getInt32(0, true)
+      case 'float': return view.getFloat32(0, true)
+      case 'fixed64': return toSafeNumber(view.getBigUint64(0, true))
+      case 'sfixed64': return toSafeNumber(view.getBigInt64(0, true))
+      case 'double': return view.getFloat64(0, true)
+    }
+    throw new TypeError(`Unsupported scalar type ${type}`)
+  }
+
   /**
    * 解码单个字段
    * @private
@@ -42,7 +421,7 @@ export class ProtobufEncoder {
    * @returns 解码结果包含标签、值和下一个偏移位置
    */
   private _decodeField(data: Uint8Array, offset: number): { tag: number, value: any, nextOffset: number } {
-    const { value: key, nextOffset: keyOffset } = this._readVarint(data, offset)
+    const { value: key, nextOffset: keyOffset } = this._readSize(data, offset)
     const tag = key >>> 3
     const wireType = key & 7
     let value: any
@@ -54,11 +433,12 @@ export class ProtobufEncoder {
         nextOffset = varintResult.nextOffset
         break
       case 1:
-        value = data.slice(keyOffset, keyOffset + 8);
-        nextOffset = keyOffset + 8;
-        break;
+        if (keyOffset + 8 > data.length) throw new Error('Invalid fixed-width field')
+        value = new TypedValue('fixed64', this._decodeScalar('fixed64', data.slice(keyOffset, keyOffset + 8)))
+        nextOffset = keyOffset + 8
+        break
       case 2:
-        const lengthResult = this._readVarint(data, keyOffset)
+        const lengthResult = this._readSize(data, keyOffset)
         const length = lengthResult.value
         const dataStart = lengthResult.nextOffset
         const dataEnd = dataStart + length
@@ -70,15 +450,16 @@ export class ProtobufEncoder {
           try {
             value = new TextDecoder('utf-8', { fatal: true }).decode(fieldData)
           } catch {
-            value = fieldData
+            value = Buffer.from(fieldData)
           }
         }
         nextOffset = dataEnd
         break
       case 5:
-        value = data.slice(keyOffset, keyOffset + 4);
-        nextOffset = keyOffset + 4;
-        break;
+        if (keyOffset + 4 > data.length) throw new Error('Invalid fixed-width field')
+        value = new TypedValue('fixed32', this._decodeScalar('fixed32', data.slice(keyOffset, keyOffset + 4)))
+        nextOffset = keyOffset + 4
+        break
       default:
         throw new Error(`Unsupported wire type: ${wireType}`)
     }
@@ -86,25 +467,129 @@ export class ProtobufEncoder {
   }
 
   /**
-   * 读取可变长度整数
+   * 读取可变长度整数（64位无符号）
    * @private
    * @param data - 要读取的数据
    * @param offset - 当前偏移位置
-   * @returns 读取结果包含值和下一个偏移位置
+   * @returns 读取结果包含值（超出安全整数范围时为bigint）和下一个偏移位置
    */
-  private _readVarint(data: Uint8Array, offset: number): { value: number, nextOffset: number } {
-    let value = 0
+  private _readVarint(data: Uint8Array, offset: number): { value: number | bigint, nextOffset: number } {
+    let low = 0
+    let high = 0n
     let shift = 0
     let currentOffset = offset
-    while (currentOffset < data.length) {
-      const byte = data[currentOffset]
-      value |= (byte & 0x7F) << shift
-      currentOffset++
+    while (true) {
+      if (currentOffset >= data.length) throw new Error('Truncated varint')
+      if (shift >= 70) throw new Error('Varint too long')
+      const byte = data[currentOffset++]
+      if (shift < 28) low |= (byte & 0x7F) << shift
+      else high |= BigInt(byte & 0x7F) << BigInt(shift - 28)
       if ((byte & 0x80) === 0) break
       shift += 7
-      if (shift >= 32) throw new Error('Varint too long')
     }
-    return { value: value >>> 0, nextOffset: currentOffset }
+    if (!high) return { value: low, nextOffset: currentOffset }
+    const value = BigInt.asUintN(64, (high << 28n) | BigInt(low))
+    return { value: toSafeNumber(value), nextOffset: currentOffset }
+  }
+
+  /**
+   * 读取用作标签或长度的可变长度整数
+   * @private
+   * @param data - 要读取的数据
+   * @param offset - 当前偏移位置
+   * @returns 读取结果包含值和下一个偏移位置
+   */
+  private _readSize(data: Uint8Array, offset: number): { value: number, nextOffset: number } {
+    const { value, nextOffset } = this._readVarint(data, offset)
+    if (typeof value !== 'number' || value > 0xFFFFFFFF) throw new Error('Varint too long')
+    return { value, nextOffset }
+  }
+
+  /**
+   * 按消息定义编码对象
+   * @private
+   * @param buffer - 编码缓冲区
+   * @param message - 消息定义
+   * @param obj - 以字段名（或数字标签）为键的对象
+   */
+  private _encodeMessage(buffer: number[], message: ProtoMessage, obj: any): void {
+    const entries: { tag: number, field?: ProtoField, value: any }[] = []
+    for (const key of Object.keys(obj)) {
+      const field = message.fields.find(f => f.name === key) ?? (/^\d+$/.test(key) ? message.fields.find(f => f.id === parseInt(key)) : undefined)
+      if (!field && !/^\d+$/.test(key)) throw new Error(`Unknown field ${key} in ${message.name}`)
+      entries.push({ tag: field ? field.id : parseInt(key), field, value: obj[key] })
+    }
+    for (const { tag, field, value } of entries.sort((a, b) => a.tag - b.tag)) {
+      if (!field) {
+        this._encode(buffer, tag, value)
+        continue
+      }
+      const items = field.map ? this._fromMapObject(field, value) : value
+      const values = Array.isArray(items) ? items : [items]
+      const enumType = field.resolved && this.schema.getEnum(field.resolved)
+      if (field.resolved && !enumType) {
+        for (const item of values) if (item != null) this._encodeBytes(buffer, tag, this.encode(item, field.resolved))
+        continue
+      }
+      const scalarType = enumType ? 'int32' : field.type
+      const scalars = values.filter(item => item != null).map(item => {
+        if (item instanceof TypedValue) item = item.value
+        if (!enumType || typeof item !== 'string') return item
+        if (!(item in enumType.values)) throw new Error(`Unknown enum value ${item} for ${enumType.name}`)
+        return enumType.values[item]
+      })
+      if (field.packed && scalars.length) {
+        const packed: number[] = []
+        for (const item of scalars) this._writeScalar(packed, scalarType, item)
+        this._encodeBytes(buffer, tag, packed)
+      } else {
+        for (const item of scalars) {
+          this._writeVarint(buffer, (tag << 3) | SCALAR_WIRE_TYPES[scalarType])
+          this._writeScalar(buffer, scalarType, item)
+        }
+      }
+    }
+  }
+
+  /**
+   * 写入不带标签的标量值
+   * @private
+   * @param buffer - 编码缓冲区
+   * @param type - 标量类型
+   * @param value - 要写入的值
+   */
+  private _writeScalar(buffer: number[], type: string, value: any): void {
+    switch (type) {
+      case 'int32':
+      case 'int64':
+      case 'uint32':
+      case 'uint64':
+        return this._writeVarint(buffer, typeof value === 'string' ? BigInt(value) : value)
+      case 'sint32':
+      case 'sint64':
+        return this._writeVarint(buffer, zigzagEncode(BigInt(value)))
+      case 'bool':
+        return this._writeVarint(buffer, value ? 1 : 0)
+      case 'string':
+      case 'bytes': {
+        const bytes = typeof value === 'string' ? Buffer.from(value, 'utf-8') : value
+        this._writeVarint(buffer, bytes.length)
+        buffer.push(...bytes)
+        return
+      }
+    }
+    const size = SCALAR_WIRE_TYPES[type] === 1 ? 8 : 4
+    const view = new DataView(new ArrayBuffer(size))
+    switch (type) {
+      case 'fixed32': view.setUint32(0, Number(value), true); break
+      case 'sfixed32': view.setInt32(0, Number(value), true); break
+      case 'float': view.setFloat32(0, Number(value), true); break
+      case 'fixed64': view.setBigUint64(0, BigInt(value), true); break
+      case 'sfixed64': view.setBigInt64(0, BigInt(value), true); break
+      case 'double': view.setFloat64(0, Number(value), true); break
+      default: throw new TypeError(`Unsupported scalar type ${type}`)
+    }
+    buffer.push(...new Uint8Array(view.buffer))
   }
 
   /**
@@ -131,7 +616,9 @@ export class ProtobufEncoder {
    */
   private _encodeValue(buffer: number[], tag: number, value: any): void {
     if (value === null || value === undefined) return
-    if (typeof value === 'number') {
+    if (value instanceof TypedValue) {
+      this._encodeTyped(buffer, tag, value)
+    } else if (typeof value === 'number' || typeof value === 'bigint') {
       this._encodeVarint(buffer, tag, value)
     } else if (typeof value === 'boolean') {
       this._encodeBool(buffer, tag, value)
@@ -147,6 +634,31 @@ export class ProtobufEncoder {
     }
   }
 
+  /**
+   * 按类型提示编码值
+   * @private
+   * @param buffer - 编码缓冲区
+   * @param tag - 字段标签
+   * @param typed - 带类型的值，类型为标量类型名或 packed[:元素类型]
+   */
+  private _encodeTyped(buffer: number[], tag: number, typed: TypedValue): void {
+    const [kind, itemType = 'uint64'] = typed.type.split(':')
+    const values = (Array.isArray(typed.value) ? typed.value : [typed.value])
+      .map(item => item instanceof TypedValue ? item.value : item)
+    if (kind === 'packed') {
+      if (!(itemType in SCALAR_WIRE_TYPES) || SCALAR_WIRE_TYPES[itemType] === 2) throw new TypeError(`Unsupported packed type ${itemType}`)
+      const packed: number[] = []
+      for (const item of values) this._writeScalar(packed, itemType, item)
+      this._encodeBytes(buffer, tag, packed)
+      return
+    }
+    if (!(kind in SCALAR_WIRE_TYPES)) throw new TypeError(`Unsupported type hint ${typed.type}`)
+    for (const item of values) {
+      this._writeVarint(buffer, (tag << 3) | SCALAR_WIRE_TYPES[kind])
+      this._writeScalar(buffer, kind, item)
+    }
+  }
+
   /**
    * 编码可变长度整数
    * @private
@@ -154,7 +666,7 @@ export class ProtobufEncoder {
    * @param tag - 字段标签
    * @param value - 整数值
    */
-  private _encodeVarint(buffer: number[], tag: number, value: number): void {
+  private _encodeVarint(buffer: number[], tag: number, value: number | bigint): void {
     const key = (tag << 3) | 0
     this._writeVarint(buffer, key)
     this._writeVarint(buffer, value)
@@ -193,7 +705,7 @@ export class ProtobufEncoder {
    * @param tag - 字段标签
    * @param value - 字节数据
    */
-  private _encodeBytes(buffer: number[], tag: number, value: Uint8Array | Buffer): void {
+  private _encodeBytes(buffer: number[], tag: number, value: Uint8Array | Buffer | number[]): void {
     const key = (tag << 3) | 2
     this._writeVarint(buffer, key)
     this._writeVarint(buffer, value.length)
@@ -202,21 +714,75 @@ export class ProtobufEncoder {
 
   /**
    * 向缓冲区写入可变长度整数
+   * 负数按64位补码写入（10字节），与 int32/int64 的编码一致
    * @private
    * @param buffer - 编码缓冲区
    * @param value - 要写入的整数值
    */
-  private _writeVarint(buffer: number[], value: number): void {
-    value = value >>> 0
-    while (true) {
-      const byte = value & 0x7F
-      value >>>= 7
-      if (value) {
-        buffer.push(byte | 0x80)
-      } else {
-        buffer.push(byte)
-        break
+  private _writeVarint(buffer: number[], value: number | bigint): void {
+    if (typeof value === 'number' && value >= 0 && value <= 0x7FFFFFFF) {
+      value = Math.floor(value)
+      while (value > 0x7F) {
+        buffer.push((value & 0x7F) | 0x80)
+        value >>>= 7
       }
+      buffer.push(value)
+      return
+    }
+    let n = BigInt.asUintN(64, typeof value === 'bigint' ? value : BigInt(Math.trunc(value)))
+    while (n > 0x7Fn) {
+      buffer.push(Number(n & 0x7Fn) | 0x80)
+      n >>= 7n
     }
+    buffer.push(Number(n))
   }
 }
+
+/**
+ * ZigZag 编码（sint32/sint64）
+ * @param value - 有符号整数
+ * @returns 编码后的无符号整数
+ */
+function zigzagEncode(value: bigint): bigint {
+  return BigInt.asUintN(64, (value << 1n) ^ (value >> 63n))
+}
+
+/**
+ * ZigZag 解码（sint32/sint64）
+ * @param value - 编码后的无符号整数
+ * @returns 有符号整数
+ */
+function zigzagDecode(value: bigint): bigint {
+  return (value >> 1n) ^ -(value & 1n)
+}
+
+/**
+ * 将 bigint 转换为安全整数范围内的 number
+ * @param value - 要转换的值
+ * @returns 安全范围内返回 number，否则保留 bigint
+ */
+function toSafeNumber(value: bigint): number | bigint {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(value) : value
+}
+
+/**
+ * 生成十六进制预览，过长时截断
+ * @param bytes - 字节数据
+ * @param limit - 最多显示的字节数
+ * @returns 以空格分隔的十六进制字符串
+ */
+function formatHex(bytes: Uint8Array, limit: number = 24): string {
+  const hex = Array.from(bytes.subarray(0, limit), byte => byte.toString(16).padStart(2, '0')).join(' ')
+  return bytes.length > limit ? `${hex} …(+${bytes.length - limit})` : hex
+}
+
+/**
+ * 格式化标注文本中的值
+ * @param value - 解码后的值
+ * @returns 文本表示
+ */
+function formatDumpValue(value: any): string {
+  if (Buffer.isBuffer(value)) return `hex->${value.toString('hex')}`
+  if (typeof value === 'string') return JSON.stringify(value)
+  return String(value)
+}
@@ -0,0 +1,146 @@
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+/** 查找下次执行时间的最大范围（覆盖闰年 2 月 29 日） */
+const SEARCH_LIMIT = 5 * 366 * 24 * 60 * 60 * 1000
+
+/**
+ * 定时计划
+ * 支持五段 cron 表达式（分 时 日 月 周）以及简写：
+ * - `HH:MM` / `HH:MM daily` - 每天
+ * - `HH:MM weekly [周几]` - 每周，默认周一
+ * - `HH:MM monthly [日期]` - 每月，默认 1 日
+ * - `@hourly` / `@daily` / `@weekly` / `@monthly`（与 cron 一致，`@weekly` 为周日）
+ */
+export class CronSchedule {
+  private minutes: Set<number>
+  private hours: Set<number>
+  private days: Set<number>
+  private months: Set<number>
+  private weekdays: Set<number>
+  /** 日期与周几均有限制时，满足其一即可（与 cron 一致） */
+  private dayOrWeekday: boolean
+
+  /**
+   * @param expression - 时间表达式
+   */
+  constructor(public readonly expression: string) {
+    const fields = CronSchedule.normalize(expression).split(/\s+/)
+    if (fields.length !== 5) throw new Error(`无效的时间表达式: ${expression}`)
+    const [minute, hour, day, month, weekday] = fields
+    this.minutes = CronSchedule.parseField(minute, 0, 59)
+    this.hours = CronSchedule.parseField(hour, 0, 23)
+    this.days = CronSchedule.parseField(day, 1, 31)
+    this.months = CronSchedule.parseField(month, 1, 12, MONTHS)
+    this.weekdays = new Set([...CronSchedule.parseField(weekday, 0, 7, WEEKDAYS)].map(value => value % 7))
+    this.dayOrWeekday = day !== '*' && weekday !== '*'
+  }
+
+  /**
+   * 计算指定时间之后的下次执行时间
+   * @param after - 起始时间（不包含）
+   * @returns 下次执行时间
+   */
+  next(after: Date): Date {
+    const date = new Date(after.getTime())
+    date.setSeconds(0, 0)
+    date.setMinutes(date.getMinutes() + 1)
+    const limit = after.getTime() + SEARCH_LIMIT
+    while (date.getTime() <= limit) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1)
+        date.setHours(0, 0, 0, 0)
+      } else if (!this.matchDay(date)) {
+        date.setDate(date.getDate() + 1)
+        date.setHours(0, 0, 0, 0)
+      } else if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0)
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0)
+      } else {
+        return date
+      }
+    }
+    throw new Error(`时间表达式没有可执行的时间: ${this.expression}`)
+  }
+
+  /**
+   * 检查日期是否匹配日与周几
+   * @param date - 日期
+   * @returns 是否匹配
+   */
+  private matchDay(date: Date): boolean {
+    const day = this.days.has(date.getDate())
+    const weekday = this.weekdays.has(date.getDay())
+    return this.dayOrWeekday ? day || weekday : day && weekday
+  }
+
+  /**
+   * 将旧版的备份间隔转换为 cron 表达式
+   * 不能整除一天的间隔按最接近的小时或天数近似
+   * @param hours - 间隔（小时）
+   * @returns cron 表达式
+   */
+  static fromInterval(hours: number): string {
+    const value = Math.max(1, Math.round(hours))
+    if (value < 24) return `0 */${value} * * *`
+    const days = Math.round(value / 24)
+    return days === 1 ? '0 0 * * *' : `0 0 */${days} * *`
+  }
+
+  /**
+   * 将简写转换为五段 cron 表达式
+   * @param expression - 时间表达式
+   * @returns cron 表达式
+   */
+  private static normalize(expression: string): string {
+    const source = expression.trim().toLowerCase()
+    const macros: Record<string, string> = {
+      '@hourly': '0 * * * *',
+      '@daily': '0 0 * * *',
+      '@weekly': '0 0 * * 0',
+      '@monthly': '0 0 1 * *',
+    }
+    if (source in macros) return macros[source]
+    const match = source.match(/^(\d{1,2}):(\d{2})(?:\s+(daily|weekly|monthly)(?:\s+(\w+))?)?$/)
+    if (!match) return source
+    const [, hour, minute, period = 'daily', arg] = match
+    if (period === 'daily' && arg) throw new Error(`无效的时间表达式: ${expression}`)
+    const time = `${+minute} ${+hour}`
+    if (period === 'weekly') return `${time} * * ${arg ?? 'mon'}`
+    if (period === 'monthly') return `${time} ${arg ?? 1} * *`
+    return `${time} * * *`
+  }
+
+  /**
+   * 解析单个字段，支持 `*`、列表、范围与步长
+   * @param field - 字段内容
+   * @param min - 最小值
+   * @param max - 最大值
+   * @param names - 名称别名（从 min 开始）
+   * @returns 允许的取值
+   */
+  private static parseField(field: string, min: number, max: number, names: string[] = []): Set<number> {
+    const parseValue = (value: string) => {
+      const index = names.indexOf(value)
+      const result = index === -1 ? Number(value) : index + min
+      if (!Number.isInteger(result) || result < min || result > max) throw new Error(`无效的取值: ${value}`)
+      return result
+    }
+    const result = new Set<number>()
+    for (const part of field.split(',')) {
+      const [range, stepText] = part.split('/')
+      const step = stepText === undefined ? 1 : Number(stepText)
+      if (!Number.isInteger(step) || step < 1) throw new Error(`无效的步长: ${part}`)
+      let [start, end] = [min, max]
+      if (range !== '*') {
+        const [from, to] = range.split('-')
+        start = parseValue(from)
+        end = to === undefined ? (stepText === undefined ? start : max) : parseValue(to)
+      }
+      if (start > end) throw new Error(`无效的范围: ${part}`)
+      for (let value = start; value <= end; value += step) result.add(value)
+    }
+    return result
+  }
+}
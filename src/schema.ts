@@ -0,0 +1,416 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { logger } from './index'
+
+/**
+ * Protobuf 字段定义
+ */
+export interface ProtoField {
+  name: string
+  id: number
+  type: string
+  repeated?: boolean
+  packed?: boolean
+  /** map 字段，type 为对应的 Entry 消息，JSON 中以对象表示 */
+  map?: boolean
+  /** 解析后的消息或枚举全名 */
+  resolved?: string
+}
+
+/**
+ * Protobuf 消息定义
+ */
+export interface ProtoMessage {
+  name: string
+  fields: ProtoField[]
+}
+
+/**
+ * Protobuf 枚举定义
+ */
+export interface ProtoEnum {
+  name: string
+  values: Record<string, number>
+}
+
+/**
+ * 标量类型对应的 wire type
+ */
+export const SCALAR_WIRE_TYPES: Record<string, number> = {
+  int32: 0, int64: 0, uint32: 0, uint64: 0, sint32: 0, sint64: 0, bool: 0,
+  fixed64: 1, sfixed64: 1, double: 1,
+  string: 2, bytes: 2,
+  fixed32: 5, sfixed32: 5, float: 5,
+}
+
+/**
+ * 判断类型是否为标量类型
+ * @param type - 类型名
+ * @returns 是否为标量类型
+ */
+export function isScalarType(type: string): boolean {
+  return type in SCALAR_WIRE_TYPES
+}
+
+/**
+ * Protobuf 定义集合
+ * 从 .proto 文件或 JSON 描述符加载消息与枚举定义
+ */
+export class ProtoSchema {
+  messages = new Map<string, ProtoMessage>()
+  enums = new Map<string, ProtoEnum>()
+
+  /**
+   * @param dir - 默认的定义文件目录
+   */
+  constructor(private dir?: string) {}
+
+  /**
+   * 从目录加载所有 .proto 与 .json 定义
+   * @param dir - 定义文件目录
+   * @returns 加载的文件数量
+   */
+  async load(dir: string = this.dir): Promise<number> {
+    if (!dir) return 0
+    let files: string[]
+    try {
+      files = await fs.readdir(dir)
+    } catch (error) {
+      if (error.code === 'ENOENT') return 0
+      throw error
+    }
+    let count = 0
+    for (const file of files.sort()) {
+      const ext = path.extname(file).toLowerCase()
+      if (ext !== '.proto' && ext !== '.json') continue
+      try {
+        const content = await fs.readFile(path.join(dir, file), 'utf-8')
+        ext === '.proto' ? this.parse(content) : this.addDescriptor(JSON.parse(content))
+        count++
+      } catch (e) {
+        logger.warn(`加载 Protobuf 定义失败: ${file} (${e.message})`)
+      }
+    }
+    this.resolve()
+    return count
+  }
+
+  /**
+   * 清空已加载的定义
+   */
+  clear(): void {
+    this.messages.clear()
+    this.enums.clear()
+  }
+
+  /**
+   * 解析 .proto 文本
+   * @param source - .proto 文件内容
+   */
+  parse(source: string): void {
+    const tokens = (source.match(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[A-Za-z_.][\w.]*|-?(?:0[xX][\da-fA-F]+|\d+(?:\.\d*)?(?:[eE][+-]?\d+)?)|[{}\[\]<>;=,()]/g) || [])
+      .filter(token => !token.startsWith('//') && !token.startsWith('/*'))
+    new ProtoParser(tokens, this).parse()
+  }
+
+  /**
+   * 添加 JSON 描述符（protobufjs 的 nested 格式）
+   * 未声明 packed 的重复标量仅在描述符标明 proto3（syntax 或 edition）时按 packed 处理
+   * @param json - 描述符对象
+   * @param prefix - 当前命名空间
+   * @param proto3 - 外层是否为 proto3
+   */
+  addDescriptor(json: any, prefix: string = '', proto3: boolean = false): void {
+    const syntax = json?.syntax ?? json?.edition ?? json?.options?.syntax
+    if (syntax) proto3 = syntax === 'proto3'
+    for (const [name, node] of Object.entries<any>(json?.nested || {})) {
+      const fullName = prefix ? `${prefix}.${name}` : name
+      if (node.values) {
+        this.enums.set(fullName, { name: fullName, values: { ...node.values } })
+      } else if (node.fields) {
+        const fields: ProtoField[] = []
+        for (const [fieldName, field] of Object.entries<any>(node.fields)) {
+          if (field.keyType) {
+            const entry = `${fullName}.${mapEntryName(fieldName)}`
+            this.messages.set(entry, { name: entry, fields: [
+              { name: 'key', id: 1, type: field.keyType },
+              { name: 'value', id: 2, type: field.type },
+            ] })
+            fields.push({ name: fieldName, id: field.id, type: entry, repeated: true, map: true })
+          } else {
+            fields.push({
+              name: fieldName,
+              id: field.id,
+              type: field.type,
+              repeated: field.rule === 'repeated',
+              packed: field.options?.packed ?? (proto3 && field.rule === 'repeated' && isPackable(field.type)),
+            })
+          }
+        }
+        this.messages.set(fullName, { name: fullName, fields })
+      }
+      this.addDescriptor(node, fullName, proto3)
+    }
+  }
+
+  /**
+   * 解析所有字段引用的消息或枚举类型
+   */
+  resolve(): void {
+    for (const message of this.messages.values()) {
+      for (const field of message.fields) {
+        if (isScalarType(field.type) || field.resolved) continue
+        field.resolved = this.resolveType(field.type, message.name)
+        if (!field.resolved) logger.warn(`无法解析类型: ${field.type} (${message.name}.${field.name})`)
+      }
+    }
+  }
+
+  /**
+   * 在作用域中查找类型全名
+   * @param type - 类型名
+   * @param scope - 引用该类型的消息全名
+   * @returns 类型全名，未找到时返回undefined
+   */
+  private resolveType(type: string, scope: string): string | undefined {
+    if (type.startsWith('.')) type = type.slice(1)
+    else {
+      const parts = scope.split('.')
+      for (let i = parts.length; i > 0; i--) {
+        const candidate = `${parts.slice(0, i).join('.')}.${type}`
+        if (this.messages.has(candidate) || this.enums.has(candidate)) return candidate
+      }
+    }
+    return this.messages.has(type) || this.enums.has(type) ? type : undefined
+  }
+
+  /**
+   * 查找消息定义，支持全名或唯一的短名
+   * @param name - 消息名
+   * @returns 消息定义，未找到时返回undefined
+   */
+  lookup(name: string): ProtoMessage | undefined {
+    if (this.messages.has(name)) return this.messages.get(name)
+    const matches = [...this.messages.keys()].filter(key => key.endsWith(`.${name}`))
+    return matches.length === 1 ? this.messages.get(matches[0]) : undefined
+  }
+
+  /**
+   * 获取枚举定义
+   * @param name - 枚举全名
+   * @returns 枚举定义
+   */
+  getEnum(name: string): ProtoEnum | undefined {
+    return this.enums.get(name)
+  }
+}
+
+/**
+ * 判断类型是否可以 packed 编码
+ * @param type - 类型名
+ * @returns 是否可以 packed 编码
+ */
+function isPackable(type: string): boolean {
+  return isScalarType(type) && type !== 'string' && type !== 'bytes'
+}
+
+/**
+ * 生成 map 字段对应的 Entry 消息名
+ * @param field - 字段名
+ * @returns Entry 消息名
+ */
+function mapEntryName(field: string): string {
+  return field.replace(/(?:^|_)([a-z])/g, (_, c) => c.toUpperCase()) + 'Entry'
+}
+
+/**
+ * .proto 语法解析器
+ */
+class ProtoParser {
+  private pos = 0
+  private package = ''
+  private proto3 = false
+
+  constructor(private tokens: string[], private schema: ProtoSchema) {}
+
+  /**
+   * 解析整个文件
+   */
+  parse(): void {
+    while (this.pos < this.tokens.length) {
+      const token = this.next()
+      switch (token) {
+        case 'syntax':
+          this.expect('=')
+          this.proto3 = this.next().slice(1, -1) === 'proto3'
+          this.expect(';')
+          break
+        case 'package':
+          this.package = this.next()
+          this.expect(';')
+          break
+        case 'message':
+          this.parseMessage(this.package)
+          break
+        case 'enum':
+          this.parseEnum(this.package)
+          break
+        case 'service':
+        case 'extend':
+          this.next()
+          this.skipBlock()
+          break
+        case ';':
+          break
+        default:
+          this.skipStatement()
+      }
+    }
+  }
+
+  /**
+   * 解析消息定义
+   * @param scope - 所在命名空间
+   */
+  private parseMessage(scope: string): void {
+    const name = scope ? `${scope}.${this.next()}` : this.next()
+    const fields: ProtoField[] = []
+    this.expect('{')
+    while (this.peek() !== '}') {
+      const token = this.next()
+      if (token === 'message') {
+        this.parseMessage(name)
+      } else if (token === 'enum') {
+        this.parseEnum(name)
+      } else if (token === 'oneof') {
+        this.next()
+        this.expect('{')
+        while (this.peek() !== '}') {
+          if (this.peek() === 'option') this.skipStatement()
+          else fields.push(this.parseField(this.next()))
+        }
+        this.expect('}')
+      } else if (token === 'map') {
+        this.expect('<')
+        const keyType = this.next()
+        this.expect(',')
+        const valueType = this.next()
+        this.expect('>')
+        const fieldName = this.next()
+        this.expect('=')
+        const id = parseInt(this.next())
+        this.skipStatement()
+        const entry = `${name}.${mapEntryName(fieldName)}`
+        this.schema.messages.set(entry, { name: entry, fields: [
+          { name: 'key', id: 1, type: keyType },
+          { name: 'value', id: 2, type: valueType },
+        ] })
+        fields.push({ name: fieldName, id, type: entry, repeated: true, map: true })
+      } else if (token === 'extend') {
+        this.next()
+        this.skipBlock()
+      } else if (['option', 'reserved', 'extensions'].includes(token)) {
+        this.skipStatement()
+      } else if (token === 'group') {
+        throw new Error(`Unsupported group field in ${name}`)
+      } else if (token !== ';') {
+        fields.push(this.parseField(token))
+      }
+    }
+    this.expect('}')
+    this.schema.messages.set(name, { name, fields })
+  }
+
+  /**
+   * 解析字段定义
+   * @param first - 字段定义的第一个词
+   * @returns 字段定义
+   */
+  private parseField(first: string): ProtoField {
+    const label = ['repeated', 'optional', 'required'].includes(first) ? first : null
+    const type = label ? this.next() : first
+    const name = this.next()
+    this.expect('=')
+    const id = parseInt(this.next())
+    const repeated = label === 'repeated'
+    let packed: boolean
+    if (this.peek() === '[') {
+      this.next()
+      while (this.peek() !== ']') {
+        const option = this.next()
+        if (option === 'packed') {
+          this.expect('=')
+          packed = this.next() === 'true'
+        }
+      }
+      this.expect(']')
+    }
+    this.expect(';')
+    if (packed === undefined && repeated && this.proto3 && isPackable(type)) packed = true
+    return { name, id, type, repeated, packed }
+  }
+
+  /**
+   * 解析枚举定义
+   * @param scope - 所在命名空间
+   */
+  private parseEnum(scope: string): void {
+    const name = scope ? `${scope}.${this.next()}` : this.next()
+    const values: Record<string, number> = {}
+    this.expect('{')
+    while (this.peek() !== '}') {
+      const token = this.next()
+      if (token === 'option' || token === 'reserved') {
+        this.skipStatement()
+      } else if (token !== ';') {
+        this.expect('=')
+        values[token] = parseInt(this.next())
+        this.skipStatement()
+      }
+    }
+    this.expect('}')
+    this.schema.enums.set(name, { name, values })
+  }
+
+  /**
+   * 跳过当前语句（直到分号，包含其中的花括号）
+   */
+  private skipStatement(): void {
+    let depth = 0
+    while (this.pos < this.tokens.length) {
+      const token = this.next()
+      if (token === '{') depth++
+      else if (token === '}') depth--
+      else if (token === ';' && depth <= 0) return
+    }
+  }
+
+  /**
+   * 跳过一个花括号代码块
+   */
+  private skipBlock(): void {
+    this.expect('{')
+    let depth = 1
+    while (depth > 0 && this.pos < this.tokens.length) {
+      const token = this.next()
+      if (token === '{') depth++
+      else if (token === '}') depth--
+    }
+  }
+
+  private peek(): string {
+    if (this.pos >= this.tokens.length) throw new Error('Unexpected end of proto file')
+    return this.tokens[this.pos]
+  }
+
+  private next(): string {
+    const token = this.peek()
+    this.pos++
+    return token
+  }
+
+  private expect(token: string): void {
+    const actual = this.next()
+    if (actual !== token) throw new Error(`Expected "${token}" but got "${actual}"`)
+  }
+}
@@ -1,8 +1,14 @@
 import { Session, Command, h } from 'koishi'
-import { ProtobufEncoder } from './protobuf'
+import { DecodeOptions, ProtobufEncoder, TypedValue } from './protobuf'
+import { ProtoSchema } from './schema'
+import { TemplateRegistry } from './template'
+import { PacketJournal } from './journal'
+import { ElementConverter } from './element'
+import { ForwardArchive } from './forward'
 import { promisify } from 'util'
 import { gzip as _gzip, gunzip as _gunzip } from 'zlib'
 import { logger } from './index'
+import { diffObjects } from './utils'
 
 const gzip = promisify(_gzip)
 const gunzip = promisify(_gunzip)
@@ -15,7 +21,9 @@ const gunzip = promisify(_gunzip)
  */
 function jsonReplacer(key: string, value: any): any {
   if (typeof value === 'bigint') {
-    return Number(value) >= Number.MAX_SAFE_INTEGER ? value.toString() : Number(value)
+    if (Number.isSafeInteger(Number(value))) return Number(value)
+    // 已在类型提示中（如 {"$fixed64": ...}）时输出字符串，否则以 varint 类型提示输出，重新编码时不会被当作字符串
+    return key.startsWith('$') ? value.toString() : { [value < 0 ? '$int64' : '$uint64']: value.toString() }
   } else if (Buffer.isBuffer(value)) {
     return `hex->${value.toString('hex')}`
   } else if (value?.type === 'Buffer' && Array.isArray(value.data)) {
@@ -24,11 +32,112 @@ function jsonReplacer(key: string, value: any): any {
   return value
 }
 
+/**
+ * 合并转发节点
+ */
+export interface ForwardNode {
+  userId: string
+  nickname: string | null
+  replyId: string | null
+  /** 发送时间（秒），为空时使用当前时间 */
+  time?: number
+  content: h[]
+}
+
+/**
+ * 解析 `||` 分隔的转发节点文本
+ * 格式: `QQ/@昵称:[reply=消息ID]内容`，省略用户信息时使用当前用户
+ * @param session - 会话对象
+ * @param nodesText - 节点文本
+ * @returns 有效的节点列表
+ */
+export function parseForwardNodes(session: Session, nodesText: string): ForwardNode[] {
+  const nodes: ForwardNode[] = [];
+  for (const nodeStr of nodesText.split('||')) {
+    if (!nodeStr.trim()) continue;
+    let userId = session.author.userId;
+    let nickname = session.author.name;
+    let content = nodeStr.trim();
+    let replyId = null;
+    const colonIndex = nodeStr.indexOf(':');
+    if (colonIndex !== -1) {
+      const metaStr = nodeStr.substring(0, colonIndex).trim();
+      content = nodeStr.substring(colonIndex + 1).trim();
+      if (metaStr) {
+        const metaElements = h.parse(metaStr);
+        const atElement = metaElements.find(el => el.type === 'at');
+        if (atElement) {
+          userId = atElement.attrs.id;
+          const nickPart = metaElements
+            .filter(el => el.type === 'text')
+            .map(el => el.attrs.content)
+            .join('')
+            .trim();
+          nickname = nickPart || null;
+        } else {
+          const spaceIndex = metaStr.indexOf(' ');
+          if (spaceIndex !== -1) {
+            const part1 = metaStr.substring(0, spaceIndex).trim();
+            const part2 = metaStr.substring(spaceIndex + 1).trim();
+            if (/^\d{5,}$/.test(part1) && part2) {
+              userId = part1;
+              nickname = part2;
+            } else {
+              userId = session.author.userId;
+              nickname = metaStr;
+            }
+          } else {
+            if (/^\d{5,}$/.test(metaStr)) {
+              userId = metaStr;
+              nickname = null;
+            } else {
+              userId = session.author.userId;
+              nickname = metaStr;
+            }
+          }
+        }
+      }
+    }
+    const replyMatch = content.match(/^\[reply=([\w-]+)\]/);
+    if (replyMatch) {
+      replyId = replyMatch[1];
+      content = content.substring(replyMatch[0].length).trim();
+    }
+    if (!content && !replyId) continue;
+    nodes.push({ userId, nickname, replyId, content: content ? h.parse(content) : [] });
+  }
+  return nodes;
+}
+
+/**
+ * 将转发节点构造为合并转发消息元素
+ * @param nodes - 转发节点
+ * @returns 合并转发消息元素
+ */
+export function buildForwardMessage(nodes: ForwardNode[]): h {
+  const messageElements = nodes.map(node => {
+    const nodeContentElements = [];
+    if (node.replyId) nodeContentElements.push(h('reply', { id: node.replyId }, 'hello'));
+    nodeContentElements.push(...node.content);
+    const time = node.time ? node.time * 1000 : undefined;
+    return h('message', {}, [h('author', { id: node.userId, name: node.nickname, time }), ...nodeContentElements]);
+  });
+  return h('message', { forward: true }, messageElements);
+}
+
 /**
  * 消息发送器类
  */
 export class Sender {
-  constructor(private encoder: ProtobufEncoder) {}
+  private elements = new ElementConverter()
+
+  constructor(
+    private encoder: ProtobufEncoder,
+    private schema?: ProtoSchema,
+    private templates: TemplateRegistry = new TemplateRegistry(),
+    private journal?: PacketJournal,
+    private archive?: ForwardArchive,
+  ) {}
 
   /**
    * 检查字符串是否为有效的十六进制字符串
@@ -39,6 +148,18 @@ export class Sender {
     return s.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(s)
   }
 
+  /**
+   * 解析十六进制或 Base64 格式的二进制输入
+   * @param input - 输入字符串，可带 hex-> 前缀
+   * @returns 二进制数据
+   */
+  private parseBinary(input: string): Buffer {
+    const text = input.replace(/\s+/g, '').replace(/^hex->/, '')
+    if (this.isHexString(text)) return Buffer.from(text, 'hex')
+    if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(text)) return Buffer.from(text, 'base64')
+    throw new Error('无效的十六进制或 Base64 数据')
+  }
+
   /**
    * 处理 JSON 数据并将十六进制字符串转换为缓冲区
    * @param data - 待处理的数据
@@ -46,6 +167,7 @@ export class Sender {
    * @returns 处理后的数据
    */
   private processJson(data: any, path: string[] = []): any {
+    if (data instanceof Uint8Array || data instanceof TypedValue) return data
     if (typeof data === 'string') {
       if (path.length >= 2 && path.slice(-2).join(',') === '5,2' && this.isHexString(data))
         return Buffer.from(data, 'hex')
@@ -55,13 +177,41 @@ export class Sender {
     }
     if (Array.isArray(data)) return data.map((item, i) => this.processJson(item, [...path, (i + 1).toString()]))
     if (typeof data === 'object' && data !== null) {
+      const keys = Object.keys(data)
+      if (keys.length === 1 && keys[0].startsWith('$')) {
+        // 类型提示，如 {"$fixed32": 1}
+        const type = keys[0].slice(1)
+        const value = data[keys[0]]
+        if (type === 'bytes' && typeof value === 'string' && this.isHexString(value)) return new TypedValue(type, Buffer.from(value, 'hex'))
+        return new TypedValue(type, this.processJson(value, [...path, keys[0]]))
+      }
       const result: any = {}
-      for (const [key, value] of Object.entries(data)) result[parseInt(key)] = this.processJson(value, [...path, key])
+      for (const [key, value] of Object.entries(data)) result[/^\d+$/.test(key) ? parseInt(key) : key] = this.processJson(value, [...path, key])
       return result
     }
     return data
   }
 
+  /**
+   * 按选项解码响应数据
+   * @param data - 十六进制字符串或二进制数据
+   * @param options - 解码选项
+   * @returns 解码结果
+   */
+  private decodeData(data: string | Uint8Array, options: DecodeOptions = {}): any {
+    if (options.dump) return this.encoder.dump(data, options.type)
+    return options.annotate ? this.encoder.annotate(data) : this.encoder.decode(data, options.type)
+  }
+
+  /**
+   * 格式化解码结果用于输出
+   * @param data - 解码结果，标注文本直接输出
+   * @returns 输出文本
+   */
+  private formatData(data: any): string {
+    return typeof data === 'string' ? data : JSON.stringify(data, jsonReplacer, 2)
+  }
+
   /**
    * 发送数据包
    * @param session - 会话对象
@@ -72,8 +222,76 @@ export class Sender {
   private async sendPacket(session: Session, cmd: string, packet: any): Promise<any> {
     const encodedData = this.encoder.encode(this.processJson(packet))
     const hexString = Buffer.from(encodedData).toString('hex')
-    const resp = await session.onebot._request('send_packet', { cmd, data: hexString })
-    return resp
+    return this.request(session, cmd, hexString)
+  }
+
+  /**
+   * 调用 send_packet，启用记录时写入数据包记录
+   * @param session - 会话对象
+   * @param cmd - 命令名称
+   * @param hexString - 十六进制请求数据
+   * @returns 响应结果
+   */
+  private async request(session: Session, cmd: string, hexString: string): Promise<any> {
+    const start = Date.now()
+    let resp: any
+    let error = ''
+    try {
+      resp = await session.onebot._request('send_packet', { cmd, data: hexString })
+      return resp
+    } catch (e) {
+      error = e.message
+      throw e
+    } finally {
+      if (this.journal) {
+        let decoded = ''
+        if (typeof resp?.data === 'string' && resp.data) {
+          try {
+            decoded = JSON.stringify(this.encoder.decode(resp.data), jsonReplacer)
+          } catch {}
+        }
+        await this.journal.record(session, {
+          cmd,
+          request: hexString,
+          response: typeof resp?.data === 'string' ? resp.data : '',
+          decoded,
+          error,
+          latency: Date.now() - start,
+        })
+      }
+    }
+  }
+
+  /**
+   * 获取会话对应的模板参数
+   * @param session - 会话对象
+   * @returns 默认模板参数
+   */
+  private getTemplateVars(session: Session): Record<string, any> {
+    const peer = session.guildId || session.userId || '0'
+    return {
+      peer: BigInt(peer),
+      peerId: peer,
+      chatType: session.guildId ? 3 : 1,
+      self: session.selfId,
+      user: session.userId,
+      seq: Math.floor(Math.random() * 0xFFFFFFFF),
+      random: Math.floor(Math.random() * 0xFFFFFFFF),
+      time: Math.floor(Date.now() / 1000),
+    }
+  }
+
+  /**
+   * 渲染并发送模板数据包
+   * @param session - 会话对象
+   * @param name - 模板名
+   * @param vars - 额外的模板参数
+   * @returns 响应结果
+   */
+  private async sendTemplate(session: Session, name: string, vars: Record<string, any> = {}): Promise<any> {
+    const { cmd, packet } = this.templates.render(name, { ...this.getTemplateVars(session), ...vars })
+    if (!cmd) throw new Error(`模板 ${name} 未指定 cmd`)
+    return this.sendPacket(session, cmd, packet)
   }
 
   /**
@@ -81,9 +299,10 @@ export class Sender {
    * @param session - 会话对象
    * @param messageId - 消息ID或序列号
    * @param isSeq - 是否为序列号模式
+   * @param options - 响应的解码选项
    * @returns 消息数据或null
    */
-  private async getMessage(session: Session, messageId: string, isSeq: boolean = false): Promise<any> {
+  private async getMessage(session: Session, messageId: string, isSeq: boolean = false, options: DecodeOptions = {}): Promise<any> {
     let seq: number
     if (isSeq) {
       seq = parseInt(messageId)
@@ -93,43 +312,33 @@ export class Sender {
       if (!seqValue) throw new Error('无法获取 Seq')
       seq = typeof seqValue === 'string' ? parseInt(seqValue) : seqValue
     }
-    const isGroup = !!session.guildId
-    const packet = {
-      "1": {
-        "1": parseInt(isGroup ? session.guildId : session.userId || '0'),
-        "2": seq,
-        "3": seq
-      },
-      "2": true
-    }
-    const cmd = isGroup
-      ? 'trpc.msg.register_proxy.RegisterProxy.SsoGetGroupMsg'
-      : 'trpc.msg.register_proxy.RegisterProxy.SsoGetC2CMsg'
-    const encodedData = this.encoder.encode(packet)
-    const hexString = Buffer.from(encodedData).toString('hex')
-    const resp = await session.onebot._request('send_packet', { cmd, data: hexString })
+    const resp = await this.sendTemplate(session, session.guildId ? 'get_group_msg' : 'get_c2c_msg', { seq })
     try {
-      return resp?.data ? this.encoder.decode(resp.data) : null
+      return resp?.data ? this.decodeData(resp.data, options) : null
     } catch (e) {
       logger.warn(`Failed to decode getMessage response for seq ${seq}: ${e.message}`)
       return null
     }
   }
 
+  /**
+   * 将解码后的消息数据转换为消息元素文本
+   * @param data - 解码后的消息数据
+   * @returns 每条消息一行的元素文本
+   */
+  private formatElements(data: any): string {
+    const messages = this.elements.findElements(data)
+    if (!messages.length) return '未找到消息元素'
+    return messages.map(elems => this.elements.toSatori(elems).join('')).join('\n')
+  }
+
   /**
    * 直接发送 protobuf 元素数据
    * @param session - 会话对象
    * @param elementsData - 元素数据数组
    */
   async sendProtobufElements(session: Session, elementsData: any[]): Promise<void> {
-    const packet = {
-      1: { [session.guildId ? '2' : '1']: { 1: parseInt(session.guildId || session.userId || '0') } },
-      2: { 1: 1, 2: 0, 3: 0 },
-      3: { 1: { 2: elementsData } },
-      4: Math.floor(Math.random() * 0xFFFFFFFF),
-      5: Math.floor(Math.random() * 0xFFFFFFFF)
-    }
-    await this.sendPacket(session, 'MessageSvc.PbSendMsg', packet)
+    await this.sendTemplate(session, session.guildId ? 'send_group_msg' : 'send_private_msg', { elements: elementsData })
   }
 
   /**
@@ -139,26 +348,66 @@ export class Sender {
    * @returns 长消息ID
    */
   async sendLong(session: Session, content: any): Promise<string> {
-    const data = {
-      "2": {
-        "1": "MultiMsg",
-        "2": { "1": [{ "3": { "1": { "2": typeof content === 'object' ? content : JSON.parse(content) } } }] }
-      }
+    const elements = typeof content === 'object' ? content : JSON.parse(content)
+    const { packet: data } = this.templates.render('multi_msg', { ...this.getTemplateVars(session), elements })
+    return this.uploadLong(session, data)
+  }
+
+  /**
+   * 将转发节点构造为多节点长消息并返回resid
+   * @param session - 会话对象
+   * @param nodes - 转发节点
+   * @returns 长消息ID
+   */
+  async sendLongNodes(session: Session, nodes: ForwardNode[]): Promise<string> {
+    const vars = this.getTemplateVars(session)
+    const now = Math.floor(Date.now() / 1000)
+    const bodies = []
+    for (const [index, node] of nodes.entries()) {
+      if (!/^\d+$/.test(node.userId)) throw new Error(`无效的用户ID: ${node.userId}`)
+      const content = node.replyId ? [h('quote', { id: node.replyId }), ...node.content] : node.content
+      const elements = await this.elements.toPb(session, content)
+      const nickname = node.nickname || (node.userId === session.userId ? session.author.name : null) || node.userId
+      bodies.push(this.templates.render(session.guildId ? 'multi_node_group' : 'multi_node_private', {
+        ...vars,
+        uin: BigInt(node.userId),
+        nickname,
+        elements,
+        seq: vars.seq + index,
+        random: Math.floor(Math.random() * 0xFFFFFFFF),
+        time: node.time ?? now - (nodes.length - 1 - index),
+      }).packet)
     }
+    const { packet: data } = this.templates.render('multi_msg_nodes', { ...vars, nodes: bodies })
+    return this.uploadLong(session, data)
+  }
+
+  /**
+   * 压缩并上传长消息内容
+   * @param session - 会话对象
+   * @param data - 长消息内容
+   * @returns 长消息ID
+   */
+  private async uploadLong(session: Session, data: any): Promise<string> {
     const encodedData = this.encoder.encode(this.processJson(data))
     const compressedData = await gzip(encodedData)
-    const target = BigInt(session.guildId || session.userId)
-    const packet = {
-      "2": {
-        "1": session.guildId ? 3 : 1,
-        "2": { "2": target },
-        "3": target.toString(),
-        "4": compressedData
-      },
-      "15": { "1": 4, "2": 2, "3": 9, "4": 0 }
+    const resp = await this.sendTemplate(session, 'long_send', { data: compressedData })
+    try {
+      return resp?.data ? String(this.encoder.decode(resp.data)?.["2"]?.["3"] || '') : ''
+    } catch (e) {
+      logger.warn(`Failed to decode sendLong response: ${e.message}`)
+      return ''
     }
-    const resp = await this.sendPacket(session, 'trpc.group.long_msg_interface.MsgService.SsoSendLongMsg', packet)
-    return resp?.["2"]?.["3"] || ''
+  }
+
+  /**
+   * 生成长消息元素
+   * @param session - 会话对象
+   * @param resid - 长消息ID
+   * @returns 长消息元素
+   */
+  private buildLongElement(session: Session, resid: string): any {
+    return this.templates.render('long_elem', { ...this.getTemplateVars(session), resid }).packet
   }
 
   /**
@@ -168,38 +417,25 @@ export class Sender {
    */
   async sendLongElement(session: Session, content: any): Promise<void> {
     const resid = await this.sendLong(session, content)
-    if (resid) {
-      const elem = {
-        "37": {
-          "6": 1,
-          "7": resid,
-          "17": 0,
-          "19": { "15": 0, "31": 0, "41": 0 }
-        }
-      }
-      await this.sendProtobufElements(session, [elem])
-    }
+    if (resid) await this.sendProtobufElements(session, [this.buildLongElement(session, resid)])
   }
 
   /**
    * 接收长消息
    * @param session - 会话对象
    * @param resid - 长消息ID
+   * @param options - 长消息内容的解码选项
    * @returns 消息数据或null
    */
-  async receiveLong(session: Session, resid: string): Promise<any> {
-    const packet = {
-      "1": { "2": resid, "3": true },
-      "15": { "1": 2, "2": 0, "3": 0, "4": 0 }
-    }
-    const resp = await this.sendPacket(session, 'trpc.group.long_msg_interface.MsgService.SsoRecvLongMsg', packet)
+  async receiveLong(session: Session, resid: string, options: DecodeOptions = {}): Promise<any> {
+    const resp = await this.sendTemplate(session, 'long_recv', { resid })
     try {
       if (resp?.data) {
         const decodedResp = this.encoder.decode(resp.data)
         const compressedData = decodedResp?.["1"]?.["4"]
         if (compressedData) {
           const decompressedData = await gunzip(compressedData)
-          return this.encoder.decode(decompressedData)
+          return this.decodeData(decompressedData, options)
         }
       }
     } catch (e) {
@@ -213,14 +449,16 @@ export class Sender {
    * @param session - 会话对象
    * @param cmd - 命令名称
    * @param content - 数据内容
+   * @param requestType - 请求的消息类型名
+   * @param options - 响应的解码选项
    * @returns 解码后的响应数据或null
    */
-  async sendRawPacket(session: Session, cmd: string, content: any): Promise<any> {
-    const encodedData = this.encoder.encode(typeof content === 'object' ? this.processJson(content) : this.processJson(JSON.parse(content)))
+  async sendRawPacket(session: Session, cmd: string, content: any, requestType?: string, options: DecodeOptions = {}): Promise<any> {
+    const encodedData = this.encoder.encode(typeof content === 'object' ? this.processJson(content) : this.processJson(JSON.parse(content)), requestType)
     const hexString = Buffer.from(encodedData).toString('hex')
-    const resp = await session.onebot._request('send_packet', { cmd, data: hexString })
+    const resp = await this.request(session, cmd, hexString)
     try {
-      return resp?.data ? this.encoder.decode(resp.data) : null
+      return resp?.data ? this.decodeData(resp.data, options) : null
     } catch (e) {
       logger.warn(`Failed to decode sendRawPacket response for cmd ${cmd}: ${e.message}`)
       return null;
@@ -244,33 +482,242 @@ export class Sender {
       })
 
     pb.subcommand('.raw <cmd:text> <content:text>', '发送 PB 数据')
-      .usage('发送 pb 数据')
-      .action(async ({ session }, cmd, content) => {
+      .option('type', '-t <type:string> 请求消息类型')
+      .option('response', '-r <type:string> 响应消息类型')
+      .option('annotate', '-a 列出响应字段的候选解释')
+      .option('dump', '-x 按字节标注响应')
+      .usage('发送 pb 数据\n使用 -t/-r 指定已加载的消息类型后可使用字段名\n' +
+        '使用 {"$类型": 值} 指定编码方式，如 {"$fixed32": 1}、{"$double": 1.5}、{"$sint64": "-1"}、{"$packed:int32": [1, 2]}')
+      .action(async ({ session, options }, cmd, content) => {
         if (session.bot.platform !== 'onebot') return;
         if (!cmd?.trim() || !content?.trim()) return '请提供数据'
         const result = JSON.parse(content)
-        const response = await this.sendRawPacket(session, cmd.trim(), result)
-        return JSON.stringify(response, jsonReplacer, 2)
+        const response = await this.sendRawPacket(session, cmd.trim(), result, options.type, { type: options.response, annotate: options.annotate, dump: options.dump })
+        return this.formatData(response)
       })
 
     pb.subcommand('.get [messageId:text]', '获取 PB 数据')
       .option('seq', '-s 使用 seq 而非 messageId')
-      .usage('获取消息的 protobuf 数据\n不提供 messageId 时自动使用引用消息')
+      .option('type', '-t <type:string> 响应消息类型')
+      .option('annotate', '-a 列出字段的候选解释')
+      .option('dump', '-x 按字节标注')
+      .option('elements', '-e 输出为消息元素')
+      .usage('获取消息的 protobuf 数据\n不提供 messageId 时自动使用引用消息\n使用 -e 将消息内容还原为 <at/>、<face/> 等消息元素')
       .action(async ({ session, options }, messageId) => {
         if (session.bot.platform !== 'onebot') return;
+        const decodeOptions: DecodeOptions = options.elements ? {} : options
+        const format = (data: any) => data ? (options.elements ? this.formatElements(data) : this.formatData(data)) : '获取消息失败'
         const replyData = session.event._data?.message?.find(msg => msg.type === 'reply')
         if (replyData?.data?.id) {
           const quotedMsgInfo = await session.onebot._request('get_msg', { message_id: replyData.data.id })
           const realSeq = quotedMsgInfo?.data?.real_seq
           if (realSeq) {
             const seq = typeof realSeq === 'string' ? parseInt(realSeq) : realSeq
-            const data = await this.getMessage(session, seq.toString(), true)
-            return data ? JSON.stringify(data, jsonReplacer, 2) : '获取消息失败'
+            return format(await this.getMessage(session, seq.toString(), true, decodeOptions))
           }
         }
         if (!messageId?.trim()) return '请提供 ID'
-        const data = await this.getMessage(session, messageId, options.seq)
-        return data ? JSON.stringify(data, jsonReplacer, 2) : '获取消息失败'
+        return format(await this.getMessage(session, messageId, options.seq, decodeOptions))
+      })
+
+    pb.subcommand('.send <content:text>', '以消息元素发送 PB 数据')
+      .option('print', '-p 仅输出生成的 pb(elem)，不发送')
+      .usage('将 text、at、face、quote、markdown、json 等消息元素转换为 pb(elem) 后发送\n' +
+        '图片等无法直接构造的元素可通过 <image pb="十六进制"/> 或 <pb data="十六进制"/> 引用已有元素')
+      .action(async ({ session, options }, content) => {
+        if (session.bot.platform !== 'onebot') return;
+        if (!content?.trim()) return '请提供内容'
+        const elements = h.parse(content)
+        if (session.quote?.id) elements.unshift(h('quote', { id: session.quote.id }))
+        const elems = await this.elements.toPb(session, elements)
+        if (options.print) return this.formatData(elems)
+        await this.sendProtobufElements(session, elems)
+      })
+
+    pb.subcommand('.decode <data:text>', '本地解码 PB 数据')
+      .option('type', '-t <type:string> 消息类型')
+      .option('gzip', '-z 先进行 gzip 解压')
+      .option('annotate', '-a 列出字段的候选解释')
+      .option('dump', '-x 按字节标注')
+      .usage('解码十六进制或 Base64 格式的 pb 数据，无需 OneBot 会话')
+      .action(async ({ options }, data) => {
+        if (!data?.trim()) return '请提供数据'
+        try {
+          let binary = this.parseBinary(data)
+          if (options.gzip) binary = await gunzip(binary)
+          return this.formatData(this.decodeData(binary, options))
+        } catch (e) {
+          return `解码失败: ${e.message}`
+        }
+      })
+
+    pb.subcommand('.encode <content:text>', '本地编码 PB 数据')
+      .option('type', '-t <type:string> 消息类型')
+      .option('gzip', '-z 编码后进行 gzip 压缩')
+      .option('base64', '-b 输出 Base64')
+      .usage('将 JSON 编码为十六进制（或 Base64）格式的 pb 数据，无需 OneBot 会话')
+      .action(async ({ options }, content) => {
+        if (!content?.trim()) return '请提供数据'
+        try {
+          let binary = Buffer.from(this.encoder.encode(this.processJson(JSON.parse(content)), options.type))
+          if (options.gzip) binary = await gzip(binary)
+          return binary.toString(options.base64 ? 'base64' : 'hex')
+        } catch (e) {
+          return `编码失败: ${e.message}`
+        }
+      })
+
+    pb.subcommand('.diff <a:string> <b:string>', '比较 PB 数据')
+      .option('mode', '-m <mode:string> 来源类型(id/seq/resid/hex)', { fallback: 'id' })
+      .option('type', '-t <type:string> 消息类型')
+      .usage('比较两条消息、长消息或十六进制数据的 pb 结构，列出新增、删除和修改的字段路径\n' +
+        '可为单个参数添加 id:/seq:/resid:/hex: 前缀覆盖 -m\n示例: pb.diff 123 seq:456')
+      .action(async ({ session, options }, a, b) => {
+        const sources = [a, b].map(input => {
+          const match = input.match(/^(id|seq|resid|hex):(.+)$/)
+          return match ? { mode: match[1], value: match[2] } : { mode: options.mode, value: input }
+        })
+        if (sources.some(source => source.mode !== 'hex') && session.bot.platform !== 'onebot') return '仅支持 OneBot 平台'
+        try {
+          const [left, right] = await Promise.all(sources.map(async ({ mode, value }) => {
+            let data: any
+            switch (mode) {
+              case 'id':
+              case 'seq':
+                data = await this.getMessage(session, value, mode === 'seq', { type: options.type })
+                break
+              case 'resid':
+                data = await this.receiveLong(session, value, { type: options.type })
+                break
+              case 'hex':
+                data = this.encoder.decode(this.parseBinary(value), options.type)
+                break
+              default:
+                throw new Error(`不支持的来源类型 "${mode}"`)
+            }
+            if (!data) throw new Error(`获取数据失败: ${value}`)
+            return data
+          }))
+          const diffs = diffObjects(left, right)
+          if (!diffs.length) return '数据完全相同'
+          const format = (value: any) => JSON.stringify(value, jsonReplacer)
+          const lines = diffs.map(diff => {
+            if (diff.type === 'added') return `+ ${diff.path}: ${format(diff.to)}`
+            if (diff.type === 'removed') return `- ${diff.path}: ${format(diff.from)}`
+            return `~ ${diff.path}: ${format(diff.from)} → ${format(diff.to)}`
+          })
+          return `共 ${diffs.length} 处差异:\n${lines.join('\n')}`
+        } catch (e) {
+          return `比较失败: ${e.message}`
+        }
+      })
+
+    pb.subcommand('.tpl [name:string] [args:text]', '发送模板数据包')
+      .option('type', '-t <type:string> 响应消息类型')
+      .option('annotate', '-a 列出响应字段的候选解释')
+      .option('dump', '-x 按字节标注响应')
+      .option('print', '-p 仅输出渲染结果，不发送')
+      .option('reload', '-r 重新加载模板文件')
+      .usage('使用已注册的模板发送数据包，不提供模板名时列出所有模板\n' +
+        '参数格式: key=value（空格分隔，值按 JSON 解析）或 JSON 对象\n' +
+        '默认参数: peer/peerId/chatType/self/user/seq/random/time\n' +
+        '示例: pb.tpl long_recv resid=xxx')
+      .action(async ({ session, options }, name, args) => {
+        try {
+          if (options.reload) await this.templates.reload()
+          if (!name) {
+            return '可用模板:\n' + this.templates.list()
+              .map(([key, template]) => `${key}${template.cmd ? ` [${template.cmd}]` : ' [元素]'}${template.description ? ` - ${template.description}` : ''}`)
+              .join('\n')
+          }
+          const vars: Record<string, any> = {}
+          const text = args?.trim()
+          if (text?.startsWith('{')) {
+            Object.assign(vars, JSON.parse(text))
+          } else if (text) {
+            for (const pair of text.split(/\s+/)) {
+              const index = pair.indexOf('=')
+              if (index <= 0) return `无效参数: ${pair}`
+              const value = pair.slice(index + 1)
+              try {
+                vars[pair.slice(0, index)] = JSON.parse(value)
+              } catch {
+                vars[pair.slice(0, index)] = value
+              }
+            }
+          }
+          const { cmd, packet } = this.templates.render(name, { ...this.getTemplateVars(session), ...vars })
+          if (options.print) return `${cmd || '[元素]'}\n${JSON.stringify(packet, jsonReplacer, 2)}`
+          if (session.bot.platform !== 'onebot') return '仅支持 OneBot 平台'
+          if (!cmd) {
+            await this.sendProtobufElements(session, Array.isArray(packet) ? packet : [packet])
+            return
+          }
+          const resp = await this.sendPacket(session, cmd, packet)
+          return resp?.data ? this.formatData(this.decodeData(resp.data, options)) : '无响应数据'
+        } catch (e) {
+          return `发送失败: ${e.message}`
+        }
+      })
+
+    pb.subcommand('.history [page:number]', '查看数据包记录', { authority: 2 })
+      .option('cmd', '-c <cmd:string> 按命令名过滤')
+      .option('id', '-i <id:number> 查看指定记录详情')
+      .usage('浏览 send_packet 调用记录（需启用 packetJournal）')
+      .action(async ({ options }, page) => {
+        if (!this.journal) return '未启用数据包记录'
+        try {
+          if (options.id) {
+            const record = await this.journal.get(options.id)
+            if (!record) return `记录 ${options.id} 不存在`
+            return `#${record.id} ${record.cmd}\n` +
+              `时间: ${record.time.toLocaleString()} | 耗时: ${record.latency}ms\n` +
+              `会话: ${record.platform}:${record.selfId} ${record.guildId ? `群 ${record.guildId}` : `私聊 ${record.userId}`}\n` +
+              (record.error ? `错误: ${record.error}\n` : '') +
+              `请求: ${record.request}\n响应: ${record.response}\n解码:\n${record.decoded ? JSON.stringify(JSON.parse(record.decoded), null, 2) : '无'}`
+          }
+          const pageNum = Math.max(1, page || 1)
+          const { rows, total } = await this.journal.list(pageNum, 10, options.cmd)
+          if (!total) return '暂无数据包记录'
+          const lines = rows.map(record =>
+            `#${record.id} ${record.time.toLocaleString()} ${record.cmd} ` +
+            `(${record.request.length / 2}B → ${record.response.length / 2}B, ${record.latency}ms)${record.error ? ' [失败]' : ''}`)
+          return `数据包记录 (${total}条) - 第${pageNum}/${Math.ceil(total / 10)}页\n${lines.join('\n')}`
+        } catch (e) {
+          return `查询失败: ${e.message}`
+        }
+      })
+
+    pb.subcommand('.replay <id:number>', '重放数据包', { authority: 3 })
+      .option('type', '-t <type:string> 响应消息类型')
+      .option('annotate', '-a 列出响应字段的候选解释')
+      .option('dump', '-x 按字节标注响应')
+      .usage('在当前会话中重新发送记录中的请求')
+      .action(async ({ session, options }, id) => {
+        if (session.bot.platform !== 'onebot') return;
+        if (!this.journal) return '未启用数据包记录'
+        try {
+          const record = await this.journal.get(id)
+          if (!record) return `记录 ${id} 不存在`
+          const resp = await this.request(session, record.cmd, record.request)
+          return resp?.data ? this.formatData(this.decodeData(resp.data, options)) : '无响应数据'
+        } catch (e) {
+          return `重放失败: ${e.message}`
+        }
+      })
+
+    pb.subcommand('.types [filter:string]', '查看 PB 消息类型')
+      .option('reload', '-r 重新加载定义文件')
+      .usage('列出已加载的 .proto/.json 消息类型')
+      .action(async ({ options }, filter) => {
+        if (!this.schema) return '未启用 Protobuf 定义'
+        if (options.reload) {
+          this.schema.clear()
+          await this.schema.load()
+        }
+        const names = [...this.schema.messages.keys()].filter(name => !filter || name.toLowerCase().includes(filter.toLowerCase()))
+        if (!names.length) return '无已加载的消息类型'
+        return `消息类型 (${names.length}):\n${names.sort().join('\n')}`
       })
 
     const long = onebot.subcommand('long <content:text>', '发送长消息')
@@ -290,28 +737,42 @@ export class Sender {
         const result = JSON.parse(content)
         const resid = await this.sendLong(session, result)
         if (!resid) return '生成长消息失败'
-        const packet = {
-          "37": {
-            "6": 1,
-            "7": resid,
-            "17": 0,
-            "19": { "15": 0, "31": 0, "41": 0 }
-          }
+        return JSON.stringify(this.buildLongElement(session, resid), jsonReplacer, 2)
+      })
+
+    long.subcommand('.node <nodes:text>', '以转发节点生成长消息')
+      .option('send', '-s 生成后直接发送')
+      .usage('使用与 forward 相同的节点格式构造多节点长消息，返回 ResID\n' +
+        '示例: long.node 123 张三:一||@李四:[reply=456]二||三')
+      .action(async ({ session, options }, nodesText) => {
+        if (session.bot.platform !== 'onebot') return;
+        if (!nodesText?.trim()) return '请提供节点内容'
+        try {
+          const nodes = parseForwardNodes(session, nodesText)
+          if (!nodes.length) return '消息节点无效'
+          const resid = await this.sendLongNodes(session, nodes)
+          if (!resid) return '生成长消息失败'
+          if (!options.send) return resid
+          await this.sendProtobufElements(session, [this.buildLongElement(session, resid)])
+        } catch (e) {
+          return `生成长消息失败：${e.message}`
         }
-        return JSON.stringify(packet, jsonReplacer, 2)
       })
 
     long.subcommand('.get <resid:text>', '获取长消息 PB')
+      .option('type', '-t <type:string> 内容消息类型')
+      .option('annotate', '-a 列出字段的候选解释')
+      .option('dump', '-x 按字节标注')
       .usage('通过 ResID 获取长消息 PB 数据')
-      .action(async ({ session }, resid) => {
+      .action(async ({ session, options }, resid) => {
         if (session.bot.platform !== 'onebot') return;
         if (!resid?.trim()) return '请提供 ID'
-        const data = await this.receiveLong(session, resid.trim())
+        const data = await this.receiveLong(session, resid.trim(), options)
         if (!data) return '获取长消息失败'
-        return JSON.stringify(data, jsonReplacer, 2)
+        return this.formatData(data)
       })
 
-    onebot.subcommand('forward <nodes:text>', '发送合并转发消息')
+    const forward = onebot.subcommand('forward <nodes:text>', '发送合并转发消息')
       .usage(
         '使用 `||` 分隔节点，通过`:`区分用户和内容。\n' +
         '格式: 使用 `QQ/@昵称` 指定用户信息，若省略则使用自己的信息。\n' +
@@ -323,73 +784,52 @@ export class Sender {
         if (!nodesText?.trim()) return '请提供节点内容';
 
         try {
-          const nodeStrings = nodesText.split('||');
-          const messageElements = [];
-          for (const nodeStr of nodeStrings) {
-            if (!nodeStr.trim()) continue;
-            let userId = session.author.userId;
-            let nickname = session.author.name;
-            let content = nodeStr.trim();
-            let replyId = null;
-            const colonIndex = nodeStr.indexOf(':');
-            if (colonIndex !== -1) {
-              const metaStr = nodeStr.substring(0, colonIndex).trim();
-              content = nodeStr.substring(colonIndex + 1).trim();
-              if (metaStr) {
-                const metaElements = h.parse(metaStr);
-                const atElement = metaElements.find(el => el.type === 'at');
-                if (atElement) {
-                  userId = atElement.attrs.id;
-                  const nickPart = metaElements
-                    .filter(el => el.type === 'text')
-                    .map(el => el.attrs.content)
-                    .join('')
-                    .trim();
-                  nickname = nickPart || null;
-                } else {
-                  const spaceIndex = metaStr.indexOf(' ');
-                  if (spaceIndex !== -1) {
-                    const part1 = metaStr.substring(0, spaceIndex).trim();
-                    const part2 = metaStr.substring(spaceIndex + 1).trim();
-                    if (/^\d{5,}$/.test(part1) && part2) {
-                      userId = part1;
-                      nickname = part2;
-                    } else {
-                      userId = session.author.userId;
-                      nickname = metaStr;
-                    }
-                  } else {
-                    if (/^\d{5,}$/.test(metaStr)) {
-                      userId = metaStr;
-                      nickname = null;
-                    } else {
-                      userId = session.author.userId;
-                      nickname = metaStr;
-                    }
-                  }
-                }
-              }
-            }
-            const replyMatch = content.match(/^\[reply=([\w-]+)\]/);
-            if (replyMatch) {
-              replyId = replyMatch[1];
-              content = content.substring(replyMatch[0].length).trim();
-            }
-            if (!content && !replyId) continue;
-            const authorElement = h('author', { id: userId, name: nickname });
-            const nodeContentElements = [];
-            if (replyId) nodeContentElements.push(h('reply', { id: replyId }, 'hello'));
-            if (content) nodeContentElements.push(...h.parse(content));
-            if (nodeContentElements.length > 0) messageElements.push(h('message', {}, [authorElement, ...nodeContentElements]));
-          }
-          if (messageElements.length === 0) {
+          const nodes = parseForwardNodes(session, nodesText);
+          if (nodes.length === 0) {
             return '消息节点无效';
           }
-          const forwardMessage = h('message', { forward: true }, messageElements);
+          const forwardMessage = buildForwardMessage(nodes);
           await session.send(forwardMessage);
         } catch (error) {
           return `发送失败：${error.message}`;
         }
       });
+
+    if (!this.archive) return
+
+    forward.subcommand('.export [name:string]', '导出合并转发消息', { authority: 2 })
+      .option('id', '-i <id:string> 合并转发ID')
+      .usage('将合并转发消息（含嵌套转发）导出为 JSON 与 Markdown 记录，并下载其中的图片、语音与视频\n不指定 ID 时使用引用消息')
+      .action(async ({ session, options }, name) => {
+        if (session.bot.platform !== 'onebot') return;
+        const id = options.id || session.quote?.id
+        if (!id) return '请提供合并转发 ID 或引用消息'
+        if (name && !/^(?!\.+$)[\w.-]+$/.test(name)) return '存档名称只能包含字母、数字、下划线、点和短横线'
+        try {
+          const result = await this.archive.export(session, id, name || undefined)
+          return `已导出 ${result.count} 条消息（${result.assets} 个资源）到存档 ${result.name}`
+        } catch (e) {
+          return `导出失败：${e.message}`
+        }
+      })
+
+    forward.subcommand('.import [name:string]', '重新发送导出的合并转发消息', { authority: 2 })
+      .usage('读取导出的存档并以合并转发重新发送，嵌套转发将展开为同级节点\n不指定名称时列出所有存档')
+      .action(async ({ session }, name) => {
+        if (session.bot.platform !== 'onebot') return;
+        if (!name) {
+          const names = await this.archive.list()
+          return names.length ? `转发存档列表：\n${names.join('\n')}` : '暂无转发存档'
+        }
+        if (!/^(?!\.+$)[\w.-]+$/.test(name)) return '无效的存档名称'
+        try {
+          const data = await this.archive.load(name)
+          const nodes = this.archive.toForwardNodes(name, data.nodes)
+          if (!nodes.length) return '存档中没有可发送的消息'
+          await session.send(buildForwardMessage(nodes))
+        } catch (e) {
+          return `发送失败：${e.message}`
+        }
+      })
   }
 }
@@ -0,0 +1,517 @@
+import fs from 'fs/promises'
+import path from 'path'
+import os from 'os'
+import http, { IncomingMessage } from 'http'
+import https from 'https'
+import { createReadStream, createWriteStream } from 'fs'
+import { Readable, Transform, Writable, pipeline as pipelineCallback } from 'stream'
+import { pipeline } from 'stream/promises'
+import { createHash, createHmac, randomBytes } from 'crypto'
+
+/**
+ * 本地目录存储配置
+ */
+export interface LocalStorageConfig {
+  name: string
+  type: 'local'
+  path: string
+}
+
+/**
+ * S3 兼容存储配置
+ */
+export interface S3StorageConfig {
+  name: string
+  type: 's3'
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  /** 对象键前缀 */
+  prefix: string
+  /** 使用路径形式（endpoint/bucket/key）访问，关闭时使用虚拟主机形式 */
+  pathStyle: boolean
+  /** 请求无响应的超时时间（毫秒） */
+  timeout?: number
+}
+
+/**
+ * WebDAV 存储配置
+ */
+export interface WebDAVStorageConfig {
+  name: string
+  type: 'webdav'
+  /** 备份目录的 URL */
+  url: string
+  username: string
+  password: string
+  /** 请求无响应的超时时间（毫秒） */
+  timeout?: number
+}
+
+export type StorageConfig = LocalStorageConfig | S3StorageConfig | WebDAVStorageConfig
+
+/**
+ * 读取范围（包含两端）
+ */
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+/**
+ * 备份存储
+ * 文件以扁平的文件名存取，不包含子目录
+ */
+export abstract class BackupStorage {
+  /**
+   * @param name - 存储名称
+   */
+  constructor(public readonly name: string) {}
+
+  /**
+   * 列出所有文件
+   * @returns 文件名列表
+   */
+  abstract list(): Promise<string[]>
+
+  /**
+   * 获取文件大小
+   * @param file - 文件名
+   * @returns 字节数
+   */
+  abstract size(file: string): Promise<number>
+
+  /**
+   * 打开文件读取流
+   * @param file - 文件名
+   * @param range - 读取范围，为空时读取全部
+   * @returns 可读流
+   */
+  abstract read(file: string, range?: ByteRange): Promise<Readable>
+
+  /**
+   * 打开文件写入流，流结束（finish）时文件已完整写入
+   * @param file - 文件名
+   * @returns 可写流
+   */
+  abstract write(file: string): Promise<Writable>
+
+  /**
+   * 删除文件，文件不存在时忽略
+   * @param file - 文件名
+   */
+  abstract remove(file: string): Promise<void>
+
+  /**
+   * 读取整个文件（或指定范围）
+   * @param file - 文件名
+   * @param range - 读取范围
+   * @returns 文件内容
+   */
+  async readFile(file: string, range?: ByteRange): Promise<Buffer> {
+    const chunks: Buffer[] = []
+    for await (const chunk of await this.read(file, range)) chunks.push(chunk)
+    return Buffer.concat(chunks)
+  }
+
+  /**
+   * 写入整个文件
+   * @param file - 文件名
+   * @param data - 文件内容
+   */
+  async writeFile(file: string, data: string | Buffer): Promise<void> {
+    await pipeline(Readable.from([Buffer.from(data)]), await this.write(file))
+  }
+
+  /**
+   * 存储位置说明
+   * @returns 用于日志与列表显示的位置
+   */
+  abstract describe(): string
+}
+
+/**
+ * 本地目录存储
+ */
+export class LocalStorage extends BackupStorage {
+  /**
+   * @param name - 存储名称
+   * @param dir - 存储目录
+   */
+  constructor(name: string, private dir: string) {
+    super(name)
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      return await fs.readdir(this.dir)
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  async size(file: string): Promise<number> {
+    return (await fs.stat(path.join(this.dir, file))).size
+  }
+
+  async read(file: string, range?: ByteRange): Promise<Readable> {
+    const filePath = path.join(this.dir, file)
+    // 先检查文件存在，使错误在打开时而非读取时抛出
+    await fs.access(filePath)
+    return createReadStream(filePath, range)
+  }
+
+  async write(file: string): Promise<Writable> {
+    await fs.mkdir(this.dir, { recursive: true })
+    return createWriteStream(path.join(this.dir, file))
+  }
+
+  async remove(file: string): Promise<void> {
+    await fs.rm(path.join(this.dir, file), { force: true })
+  }
+
+  describe(): string {
+    return this.dir
+  }
+}
+
+/**
+ * 基于 HTTP 的远程存储
+ * 写入时先暂存到本地临时文件，结束后以已知长度上传
+ */
+abstract class RemoteStorage extends BackupStorage {
+  /**
+   * 上传文件
+   * @param file - 文件名
+   * @param source - 暂存文件路径
+   * @param size - 文件大小
+   */
+  protected abstract upload(file: string, source: string, size: number): Promise<void>
+
+  async write(file: string): Promise<Writable> {
+    const staging = path.join(os.tmpdir(), `dev-tool-${randomBytes(8).toString('hex')}`)
+    const output = createWriteStream(staging)
+    await new Promise((resolve, reject) => output.once('open', resolve).once('error', reject))
+    let size = 0
+    return new Writable({
+      write(chunk, encoding, callback) {
+        size += chunk.length
+        output.write(chunk, callback)
+      },
+      final: (callback) => {
+        output.end(async () => {
+          try {
+            await this.upload(file, staging, size)
+            callback()
+          } catch (e) {
+            callback(e)
+          } finally {
+            await fs.rm(staging, { force: true })
+          }
+        })
+      },
+      destroy(error, callback) {
+        output.destroy()
+        fs.rm(staging, { force: true }).finally(() => callback(error))
+      },
+    })
+  }
+
+  /**
+   * 读取响应，服务器忽略 Range 时手动截取
+   * @param response - 响应
+   * @param range - 请求的范围
+   * @returns 可读流
+   */
+  protected sliceResponse(response: IncomingMessage, range?: ByteRange): Readable {
+    if (!range || response.statusCode === 206) return response
+    let offset = 0
+    // 使用 pipeline 使截取流被销毁时响应也随之关闭
+    return pipelineCallback(response, new Transform({
+      transform(chunk: Buffer, encoding, callback) {
+        const start = Math.max(range.start - offset, 0)
+        const end = Math.min(range.end + 1 - offset, chunk.length)
+        offset += chunk.length
+        callback(null, start < end ? chunk.subarray(start, end) : undefined)
+      },
+    }), () => {})
+  }
+}
+
+/**
+ * S3 兼容存储（AWS Signature V4）
+ */
+export class S3Storage extends RemoteStorage {
+  private endpoint: URL
+
+  /**
+   * @param config - S3 存储配置
+   */
+  constructor(private config: S3StorageConfig) {
+    super(config.name)
+    this.endpoint = new URL(config.endpoint)
+  }
+
+  async list(): Promise<string[]> {
+    const prefix = this.getPrefix()
+    const files: string[] = []
+    let token: string
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix }
+      if (token) query['continuation-token'] = token
+      const response = await this.request('GET', '', query)
+      const body = (await readBody(response)).toString('utf-8')
+      for (const [, key] of body.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        const name = decodeXML(key).slice(prefix.length)
+        if (name && !name.includes('/')) files.push(name)
+      }
+      token = /<IsTruncated>true<\/IsTruncated>/.test(body)
+        ? decodeXML(body.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1] || '')
+        : undefined
+    } while (token)
+    return files
+  }
+
+  async size(file: string): Promise<number> {
+    const response = await this.request('HEAD', this.getPrefix() + file)
+    response.resume()
+    return Number(response.headers['content-length'])
+  }
+
+  async read(file: string, range?: ByteRange): Promise<Readable> {
+    const headers = range ? { range: `bytes=${range.start}-${range.end}` } : {}
+    return this.sliceResponse(await this.request('GET', this.getPrefix() + file, {}, headers), range)
+  }
+
+  async remove(file: string): Promise<void> {
+    (await this.request('DELETE', this.getPrefix() + file)).resume()
+  }
+
+  describe(): string {
+    return `s3://${this.config.bucket}/${this.getPrefix()}`
+  }
+
+  protected async upload(file: string, source: string, size: number): Promise<void> {
+    const response = await this.request('PUT', this.getPrefix() + file, {}, { 'content-length': String(size) }, createReadStream(source))
+    response.resume()
+  }
+
+  /**
+   * 获取规范化的对象键前缀
+   * @returns 以`/`结尾的前缀，未配置时为空字符串
+   */
+  private getPrefix(): string {
+    const prefix = (this.config.prefix || '').replace(/^\/+|\/+$/g, '')
+    return prefix ? `${prefix}/` : ''
+  }
+
+  /**
+   * 发送签名请求
+   * @param method - 请求方法
+   * @param key - 对象键，为空时请求存储桶
+   * @param query - 查询参数
+   * @param headers - 额外请求头
+   * @param body - 请求体
+   * @returns 响应
+   */
+  private async request(method: string, key: string, query: Record<string, string> = {}, headers: Record<string, string> = {}, body?: Readable): Promise<IncomingMessage> {
+    const { bucket, region = 'us-east-1', accessKeyId, secretAccessKey, pathStyle = true } = this.config
+    const base = this.endpoint.pathname.replace(/\/+$/, '')
+    const url = new URL(this.endpoint.href)
+    if (!pathStyle) url.host = `${bucket}.${url.host}`
+    url.pathname = `${base}${pathStyle ? `/${bucket}` : ''}/${key}`.split('/').map(encodeRFC3986).join('/')
+    const canonicalQuery = Object.keys(query).sort()
+      .map(name => `${encodeRFC3986(name)}=${encodeRFC3986(query[name])}`).join('&')
+    url.search = canonicalQuery
+
+    const now = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+    const date = now.slice(0, 8)
+    const signedHeaders: Record<string, string> = {
+      ...headers,
+      host: url.host,
+      'x-amz-content-sha256': 'UNSIGNED-PAYLOAD',
+      'x-amz-date': now,
+    }
+    const names = Object.keys(signedHeaders).map(name => name.toLowerCase()).sort()
+    const lower = Object.fromEntries(Object.entries(signedHeaders).map(([name, value]) => [name.toLowerCase(), value]))
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      names.map(name => `${name}:${String(lower[name]).trim()}\n`).join(''),
+      names.join(';'),
+      'UNSIGNED-PAYLOAD',
+    ].join('\n')
+    const scope = `${date}/${region}/s3/aws4_request`
+    const stringToSign = ['AWS4-HMAC-SHA256', now, scope, createHash('sha256').update(canonicalRequest).digest('hex')].join('\n')
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => createHmac('sha256', key).update(part).digest(),
+      createHmac('sha256', createHmac('sha256', `AWS4${secretAccessKey}`).update(date).digest()).update(region).digest(),
+    )
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+    lower.authorization = `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`
+
+    return sendRequest(method, url, lower, body, this.config.timeout)
+  }
+}
+
+/**
+ * WebDAV 存储
+ */
+export class WebDAVStorage extends RemoteStorage {
+  private base: URL
+  private created = false
+
+  /**
+   * @param config - WebDAV 存储配置
+   */
+  constructor(private config: WebDAVStorageConfig) {
+    super(config.name)
+    this.base = new URL(config.url.endsWith('/') ? config.url : `${config.url}/`)
+  }
+
+  async list(): Promise<string[]> {
+    let response: IncomingMessage
+    try {
+      response = await this.request('PROPFIND', '', { depth: '1' })
+    } catch (e) {
+      if (e.status === 404) return []
+      throw e
+    }
+    const body = (await readBody(response)).toString('utf-8')
+    const files: string[] = []
+    for (const [, href] of body.matchAll(/<(?:[\w-]+:)?href>([^<]*)<\/(?:[\w-]+:)?href>/g)) {
+      const pathname = decodeURIComponent(new URL(decodeXML(href), this.base).pathname)
+      if (pathname.endsWith('/')) continue
+      files.push(path.posix.basename(pathname))
+    }
+    return files
+  }
+
+  async size(file: string): Promise<number> {
+    const response = await this.request('HEAD', file)
+    response.resume()
+    return Number(response.headers['content-length'])
+  }
+
+  async read(file: string, range?: ByteRange): Promise<Readable> {
+    const headers = range ? { range: `bytes=${range.start}-${range.end}` } : {}
+    return this.sliceResponse(await this.request('GET', file, headers), range)
+  }
+
+  async remove(file: string): Promise<void> {
+    try {
+      (await this.request('DELETE', file)).resume()
+    } catch (e) {
+      if (e.status !== 404) throw e
+    }
+  }
+
+  describe(): string {
+    return this.base.href
+  }
+
+  protected async upload(file: string, source: string, size: number): Promise<void> {
+    if (!this.created) {
+      // 目录已存在时服务器返回 405
+      try {
+        (await this.request('MKCOL', '')).resume()
+      } catch (e) {
+        if (e.status !== 405) throw e
+      }
+      this.created = true
+    }
+    const response = await this.request('PUT', file, { 'content-length': String(size) }, createReadStream(source))
+    response.resume()
+  }
+
+  /**
+   * 发送请求
+   * @param method - 请求方法
+   * @param file - 文件名，为空时请求目录
+   * @param headers - 额外请求头
+   * @param body - 请求体
+   * @returns 响应
+   */
+  private request(method: string, file: string, headers: Record<string, string> = {}, body?: Readable): Promise<IncomingMessage> {
+    const url = new URL(encodeURIComponent(file), this.base)
+    const { username, password } = this.config
+    if (username) headers.authorization = `Basic ${Buffer.from(`${username}:${password || ''}`).toString('base64')}`
+    return sendRequest(method, url, headers, body, this.config.timeout)
+  }
+}
+
+/**
+ * 根据配置创建存储
+ * @param config - 存储配置
+ * @returns 备份存储
+ */
+export function createStorage(config: StorageConfig): BackupStorage {
+  switch (config.type) {
+    case 's3': return new S3Storage(config)
+    case 'webdav': return new WebDAVStorage(config)
+    default: return new LocalStorage(config.name, config.path)
+  }
+}
+
+/** 默认请求超时（毫秒） */
+const DEFAULT_TIMEOUT = 60000
+
+/**
+ * 发送 HTTP 请求，状态码不小于 400 时抛出错误（附带 status 属性）
+ * 连接在超时时间内没有任何收发时中止请求，响应流随之报错
+ * @param method - 请求方法
+ * @param url - 请求地址
+ * @param headers - 请求头
+ * @param body - 请求体
+ * @param timeout - 超时时间（毫秒）
+ * @returns 响应
+ */
+function sendRequest(method: string, url: URL, headers: Record<string, string>, body?: Readable, timeout: number = DEFAULT_TIMEOUT): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, { method, headers }, async (response) => {
+      if (response.statusCode < 400) return resolve(response)
+      const text = (await readBody(response).catch(() => Buffer.alloc(0))).toString('utf-8')
+      const message = text.match(/<Message>([^<]*)<\/Message>/)?.[1] || text.slice(0, 200)
+      reject(Object.assign(new Error(`${method} ${url.pathname} ${response.statusCode}${message ? ` ${message}` : ''}`), { status: response.statusCode }))
+    })
+    request.on('error', reject)
+    request.setTimeout(timeout || DEFAULT_TIMEOUT, () => {
+      request.destroy(new Error(`${method} ${url.pathname} 请求超时 (${timeout || DEFAULT_TIMEOUT}ms)`))
+    })
+    if (body) body.on('error', error => request.destroy(error)).pipe(request)
+    else request.end()
+  })
+}
+
+/**
+ * 读取完整响应体
+ * @param response - 响应
+ * @returns 响应内容
+ */
+async function readBody(response: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of response) chunks.push(chunk)
+  return Buffer.concat(chunks)
+}
+
+/**
+ * 按 RFC 3986 编码（S3 签名要求）
+ * @param value - 原始字符串
+ * @returns 编码后的字符串
+ */
+function encodeRFC3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+/**
+ * 解码 XML 实体
+ * @param value - XML 文本
+ * @returns 解码后的文本
+ */
+function decodeXML(value: string): string {
+  return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&')
+}
@@ -0,0 +1,229 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { load as loadYaml } from 'js-yaml'
+
+/**
+ * 数据包模板
+ * 字符串值 "${name}" 会被替换为对应参数的原始值，其余字符串中的 ${name} 按文本插值
+ */
+export interface PacketTemplate {
+  /** send_packet 命令名，为空时表示消息元素模板 */
+  cmd?: string
+  /** 数据包结构 */
+  packet: any
+  /** 模板说明 */
+  description?: string
+}
+
+/**
+ * 内置数据包模板
+ */
+export const BUILTIN_TEMPLATES: Record<string, PacketTemplate> = {
+  send_group_msg: {
+    cmd: 'MessageSvc.PbSendMsg',
+    description: '发送群消息元素',
+    packet: {
+      "1": { "2": { "1": "${peer}" } },
+      "2": { "1": 1, "2": 0, "3": 0 },
+      "3": { "1": { "2": "${elements}" } },
+      "4": "${seq}",
+      "5": "${random}"
+    }
+  },
+  send_private_msg: {
+    cmd: 'MessageSvc.PbSendMsg',
+    description: '发送私聊消息元素',
+    packet: {
+      "1": { "1": { "1": "${peer}" } },
+      "2": { "1": 1, "2": 0, "3": 0 },
+      "3": { "1": { "2": "${elements}" } },
+      "4": "${seq}",
+      "5": "${random}"
+    }
+  },
+  get_group_msg: {
+    cmd: 'trpc.msg.register_proxy.RegisterProxy.SsoGetGroupMsg',
+    description: '按 seq 获取群消息',
+    packet: {
+      "1": { "1": "${peer}", "2": "${seq}", "3": "${seq}" },
+      "2": true
+    }
+  },
+  get_c2c_msg: {
+    cmd: 'trpc.msg.register_proxy.RegisterProxy.SsoGetC2CMsg',
+    description: '按 seq 获取私聊消息',
+    packet: {
+      "1": { "1": "${peer}", "2": "${seq}", "3": "${seq}" },
+      "2": true
+    }
+  },
+  multi_msg: {
+    description: '长消息内容（gzip 压缩前）',
+    packet: {
+      "2": {
+        "1": "MultiMsg",
+        "2": { "1": [{ "3": { "1": { "2": "${elements}" } } }] }
+      }
+    }
+  },
+  multi_msg_nodes: {
+    description: '多节点长消息内容（gzip 压缩前）',
+    packet: {
+      "2": {
+        "1": "MultiMsg",
+        "2": { "1": "${nodes}" }
+      }
+    }
+  },
+  multi_node_group: {
+    description: '长消息中的群聊节点',
+    packet: {
+      "1": { "1": "${uin}", "8": { "1": "${peer}", "4": "${nickname}", "5": 2 } },
+      "2": { "1": 82, "4": "${random}", "5": "${seq}", "6": "${time}", "7": 1, "8": 0, "9": 0 },
+      "3": { "1": { "2": "${elements}" } }
+    }
+  },
+  multi_node_private: {
+    description: '长消息中的私聊节点',
+    packet: {
+      "1": { "1": "${uin}", "7": { "6": "${nickname}" } },
+      "2": { "1": 529, "2": 4, "4": "${random}", "5": "${seq}", "6": "${time}", "7": 1, "8": 0, "9": 0 },
+      "3": { "1": { "2": "${elements}" } }
+    }
+  },
+  long_send: {
+    cmd: 'trpc.group.long_msg_interface.MsgService.SsoSendLongMsg',
+    description: '上传长消息并获取 ResID',
+    packet: {
+      "2": {
+        "1": "${chatType}",
+        "2": { "2": "${peer}" },
+        "3": "${peerId}",
+        "4": "${data}"
+      },
+      "15": { "1": 4, "2": 2, "3": 9, "4": 0 }
+    }
+  },
+  long_recv: {
+    cmd: 'trpc.group.long_msg_interface.MsgService.SsoRecvLongMsg',
+    description: '通过 ResID 下载长消息',
+    packet: {
+      "1": { "2": "${resid}", "3": true },
+      "15": { "1": 2, "2": 0, "3": 0, "4": 0 }
+    }
+  },
+  long_elem: {
+    description: '长消息元素',
+    packet: {
+      "37": {
+        "6": 1,
+        "7": "${resid}",
+        "17": 0,
+        "19": { "15": 0, "31": 0, "41": 0 }
+      }
+    }
+  },
+}
+
+/**
+ * 数据包模板注册表
+ * 内置模板可被用户文件中的同名模板覆盖
+ */
+export class TemplateRegistry {
+  private templates = new Map<string, PacketTemplate>(Object.entries(BUILTIN_TEMPLATES))
+
+  /**
+   * @param file - 用户模板文件（JSON/YAML）
+   */
+  constructor(private file?: string) {}
+
+  /**
+   * 从文件加载模板
+   * @param file - 模板文件路径
+   * @returns 加载的模板数量
+   */
+  async load(file: string = this.file): Promise<number> {
+    if (!file) return 0
+    let content: string
+    try {
+      content = await fs.readFile(file, 'utf-8')
+    } catch (error) {
+      if (error.code === 'ENOENT') return 0
+      throw error
+    }
+    const ext = path.extname(file).toLowerCase()
+    const data: any = ext === '.yml' || ext === '.yaml' ? loadYaml(content) : JSON.parse(content)
+    let count = 0
+    for (const [name, template] of Object.entries<any>(data || {})) {
+      if (!template || typeof template !== 'object' || !('packet' in template)) throw new Error(`模板 ${name} 缺少 packet`)
+      this.templates.set(name, template)
+      count++
+    }
+    return count
+  }
+
+  /**
+   * 重置为内置模板并重新加载文件
+   * @returns 加载的模板数量
+   */
+  async reload(): Promise<number> {
+    this.templates = new Map(Object.entries(BUILTIN_TEMPLATES))
+    return this.load()
+  }
+
+  /**
+   * 获取模板
+   * @param name - 模板名
+   * @returns 模板定义
+   */
+  get(name: string): PacketTemplate {
+    const template = this.templates.get(name)
+    if (!template) throw new Error(`未知模板: ${name}`)
+    return template
+  }
+
+  /**
+   * 列出所有模板
+   * @returns 模板名与定义
+   */
+  list(): [string, PacketTemplate][] {
+    return [...this.templates.entries()]
+  }
+
+  /**
+   * 使用参数渲染模板
+   * @param name - 模板名
+   * @param vars - 模板参数
+   * @returns 命令名与数据包
+   */
+  render(name: string, vars: Record<string, any>): { cmd?: string, packet: any } {
+    const template = this.get(name)
+    return { cmd: template.cmd, packet: this.fill(template.packet, vars, name) }
+  }
+
+  /**
+   * 递归替换占位符
+   * @param data - 模板数据
+   * @param vars - 模板参数
+   * @param name - 模板名（用于错误提示）
+   * @returns 替换后的数据
+   */
+  private fill(data: any, vars: Record<string, any>, name: string): any {
+    if (typeof data === 'string') {
+      const lookup = (key: string) => {
+        if (!(key in vars)) throw new Error(`模板 ${name} 缺少参数: ${key}`)
+        return vars[key]
+      }
+      const exact = data.match(/^\$\{(\w+)\}$/)
+      if (exact) return lookup(exact[1])
+      return data.replace(/\$\{(\w+)\}/g, (_, key) => String(lookup(key)))
+    }
+    if (Array.isArray(data)) return data.map(item => this.fill(item, vars, name))
+    if (typeof data === 'object' && data !== null) {
+      const result: any = {}
+      for (const [key, value] of Object.entries(data)) result[key] = this.fill(value, vars, name)
+      return result
+    }
+    return data
+  }
+}
@@ -0,0 +1,240 @@
+import { $, Context, Database } from 'koishi'
+import { Config, logger } from './index'
+import { ProgressCallback, createProgress, getFieldType, getPrimaryKeys, readTableBatches } from './utils'
+
+/**
+ * 迁移目标配置
+ */
+export interface MigrateTarget {
+  name: string
+  /** 驱动名称（如 sqlite、mysql）或完整包名 */
+  driver: string
+  /** 驱动的连接选项 */
+  options: Record<string, any>
+}
+
+/**
+ * 单个表的迁移结果
+ */
+export interface TableTransfer {
+  /** 写入的行数 */
+  rows: number
+  /** 迁移后目标表的行数 */
+  total?: number
+  /** 同步后的自增计数 */
+  autoInc?: number
+  error?: string
+  /** 数据已写入但自增计数未能同步 */
+  warning?: string
+}
+
+/**
+ * 同步自增计数
+ * MySQL 与 SQLite 写入指定主键时会自动推进计数，PostgreSQL 与 MongoDB 需要手动设置
+ * 内存驱动没有公开设置计数的接口，不做同步
+ */
+const AUTO_INC_SYNC: Record<string, (driver: any, table: string, key: string, max: number) => Promise<void>> = {
+  async postgres(driver, table, key) {
+    const id = (name: string) => `"${name.replace(/"/g, '""')}"`
+    const literal = (value: string) => `'${value.replace(/'/g, "''")}'`
+    await driver.query(`SELECT setval(pg_get_serial_sequence(${literal(id(table))}, ${literal(key)}), (SELECT MAX(${id(key)}) FROM ${id(table)}))`)
+  },
+  async mongo(driver, table, key, max) {
+    await driver.db.collection('_fields').updateOne({ _id: table }, { $max: { autoInc: max } }, { upsert: true })
+  },
+}
+
+/**
+ * 数据库迁移服务类
+ * 将当前数据库的表逐批复制到另一个驱动的数据库
+ */
+export class DatabaseTransfer {
+  private ctx: Context
+  private config: Config
+
+  /**
+   * 构造函数
+   * @param ctx - Koishi上下文
+   * @param config - 插件配置
+   */
+  constructor(ctx: Context, config: Config) {
+    this.ctx = ctx
+    this.config = config
+  }
+
+  /**
+   * 获取迁移目标
+   * @param name - 目标名称
+   * @returns 迁移目标
+   * @private
+   */
+  private getTarget(name: string): MigrateTarget {
+    const target = (this.config.migrateTargets || []).find(target => target.name === name)
+    if (!target) throw new Error(`未知的迁移目标: ${name}`)
+    return target
+  }
+
+  /**
+   * 获取驱动包名
+   * @param driver - 驱动名称或完整包名
+   * @returns 包名
+   * @private
+   */
+  private getDriverPackage(driver: string): string {
+    return driver.includes('/') ? driver : `@minatojs/driver-${driver}`
+  }
+
+  /**
+   * 复制表模型的字段定义
+   * 关系字段与已废弃的字段不会复制
+   * @param table - 表名
+   * @returns 字段定义
+   * @private
+   */
+  private copyFields(table: string): Record<string, any> {
+    const fields = this.ctx.model.tables[table]?.fields || {}
+    const result: Record<string, any> = {}
+    for (const [name, field] of Object.entries<any>(fields)) {
+      const type = getFieldType(field)
+      if (!field || field.deprecated || field.relation || type === 'expr') continue
+      const { transformers, load, dump, ...definition } = field
+      result[name] = { ...definition, type }
+    }
+    return result
+  }
+
+  /**
+   * 在独立的上下文中连接目标数据库，并按当前模型建表
+   * @param target - 迁移目标
+   * @param tables - 要创建的表
+   * @returns 目标数据库
+   * @private
+   */
+  private async connect(target: MigrateTarget, tables: string[]): Promise<Database> {
+    const id = this.getDriverPackage(target.driver)
+    let driver: any
+    try {
+      const module = await import(id)
+      driver = module.default ?? module
+    } catch (e) {
+      throw new Error(`无法加载驱动 ${id}，请先安装 (${e.message})`)
+    }
+
+    const database = new Database()
+    // 自定义类型（如插件通过 model.define 注册的类型）需要先复制
+    Object.assign(database.types, this.ctx.model.types)
+    for (const table of tables) {
+      const { primary, autoInc, unique } = this.ctx.model.tables[table]
+      database.extend(table as never, this.copyFields(table), { primary, autoInc, unique } as any)
+    }
+    await database.connect(driver, target.options || {})
+    if (!database.drivers.length) {
+      await database.stopAll().catch(() => {})
+      throw new Error('无法连接到目标数据库')
+    }
+    await database.prepared()
+    return database
+  }
+
+  /**
+   * 将表数据迁移到目标数据库
+   * 按主键分批读取并合并写入，保留原有主键，再同步自增计数
+   * @param target - 迁移目标
+   * @param tables - 要迁移的表
+   * @param onProgress - 进度回调
+   * @returns 每个表的迁移结果
+   */
+  async migrate(target: MigrateTarget, tables: string[], onProgress?: ProgressCallback): Promise<Record<string, TableTransfer>> {
+    const database = await this.connect(target, tables)
+    const driverName = this.getDriverPackage(target.driver).match(/driver-([\w-]+)$/)?.[1]
+    const result: Record<string, TableTransfer> = {}
+    try {
+      for (const table of tables) {
+        const transfer = result[table] = { rows: 0 } as TableTransfer
+        const keys = getPrimaryKeys(this.ctx, table)
+        const { autoInc } = this.ctx.model.tables[table]
+        let max = 0
+        try {
+          for await (const rows of readTableBatches(this.ctx, table, this.config.batchSize)) {
+            await database.upsert(table as never, rows as any, keys as any)
+            transfer.rows += rows.length
+            if (autoInc && keys.length === 1) {
+              max = Math.max(max, ...rows.map(row => +row[keys[0]] || 0))
+            }
+            onProgress?.(table, transfer.rows)
+          }
+          if (autoInc && keys.length === 1 && max > 0 && AUTO_INC_SYNC[driverName]) {
+            try {
+              await AUTO_INC_SYNC[driverName](database.drivers[0], table, keys[0], max)
+              transfer.autoInc = max
+            } catch (e) {
+              // 数据已全部写入，计数未同步不视为迁移失败
+              transfer.warning = `自增计数同步失败 (${e.message})`
+              logger.warn(`同步自增计数失败: ${table} (${e.message})`)
+            }
+          }
+          transfer.total = await database.eval(table as never, row => $.length(row[keys[0]]))
+        } catch (e) {
+          transfer.error = e.message
+          logger.warn(`迁移表失败: ${table} (${e.message})`)
+        }
+      }
+    } finally {
+      await database.stopAll()
+    }
+    return result
+  }
+
+  /**
+   * 注册迁移命令
+   * @param db - 数据库命令对象
+   */
+  registerTransferCommands(db: any): void {
+    db.subcommand('.migrate <target>', '迁移到其他数据库')
+      .option('tables', '-t <tables:string> 指定表（逗号分隔）')
+      .usage('将当前数据库的表复制到 migrateTargets 中配置的数据库，保留主键与自增计数\n' +
+        '目标中已有的行按主键覆盖，可重复执行\n' +
+        '示例: db.migrate mysql -t user,channel')
+      .action(async ({ session, options }, name) => {
+        try {
+          const target = this.getTarget(name)
+          const stats = await this.ctx.database.stats()
+          const existing = Object.keys(stats.tables || {})
+          let tables = existing
+          if (options.tables) {
+            tables = []
+            for (const table of options.tables.split(',').filter(Boolean)) {
+              const matched = existing.find(t => t.toLowerCase() === table.toLowerCase())
+              matched ? tables.push(matched) : logger.warn(`表不存在: ${table}`)
+            }
+          }
+          // 没有模型定义的表无法按字段读写
+          const skipped = tables.filter(table => !this.ctx.model.tables[table])
+          tables = tables.filter(table => this.ctx.model.tables[table])
+          if (tables.length === 0) return '无可迁移的表'
+
+          const result = await this.migrate(target, tables, createProgress(session, '迁移'))
+          const failed = tables.filter(table => result[table].error)
+          const rows = tables.reduce((sum, table) => sum + result[table].rows, 0)
+          const lines = [`迁移完成 (${tables.length - failed.length}/${tables.length}) → ${target.name}，共 ${rows} 行`]
+          for (const table of tables) {
+            const { rows, total, autoInc, error, warning } = result[table]
+            if (error) {
+              lines.push(`${table}: 失败 (${error})，已写入 ${rows} 行`)
+              continue
+            }
+            let line = `${table}: ${rows} 行`
+            if (total !== rows) line += `，目标表共 ${total} 行`
+            if (autoInc) line += `，自增计数 ${autoInc}`
+            if (warning) line += `，${warning}`
+            lines.push(line)
+          }
+          if (skipped.length) lines.push(`无模型定义，已跳过: ${skipped.join(', ')}`)
+          logger.info(lines[0])
+          return lines.join('\n')
+        } catch (e) {
+          return `迁移失败: ${e.message}`
+        }
+      })
+  }
+}
@@ -1,4 +1,4 @@
-import { Session, h } from 'koishi';
+import { Context, Session, h } from 'koishi';
 import { inspect } from 'util';
 
 /**
@@ -142,6 +142,139 @@ export function formatTimestamp(timestamp: string): {date: string, time: string}
   };
 }
 
+/**
+ * 将时间戳解析为本地时间
+ * @param timestamp - 时间戳字符串（YYYYMMDD_HHmmss）
+ * @returns 日期对象
+ */
+export function parseTimestamp(timestamp: string): Date {
+  return new Date(+timestamp.slice(0, 4), +timestamp.slice(4, 6) - 1, +timestamp.slice(6, 8),
+    +timestamp.slice(9, 11), +timestamp.slice(11, 13), +timestamp.slice(13, 15));
+}
+
+/**
+ * 将通配符模式转换为正则表达式
+ * `**` 匹配任意字符，`*` 匹配除`/`外的任意字符，`?` 匹配除`/`外的单个字符
+ * @param pattern - 通配符模式
+ * @param flags - 正则表达式标志
+ * @returns 匹配整个字符串的正则表达式
+ */
+export function globToRegExp(pattern: string, flags?: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` 也匹配零层目录
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * 获取表的主键字段
+ * 模型未声明主键时使用第一个字段
+ * @param ctx - Koishi上下文
+ * @param table - 表名
+ * @returns 主键字段列表，表没有模型时为空
+ */
+export function getPrimaryKeys(ctx: Context, table: string): string[] {
+  const model = ctx.model.tables[table];
+  if (!model) return [];
+  const primary = model.primary;
+  return Array.isArray(primary) ? primary : primary ? [primary] : Object.keys(model.fields).slice(0, 1);
+}
+
+/** 向命令调用者报告进度的最小间隔（毫秒） */
+const PROGRESS_INTERVAL = 10000
+
+/**
+ * 进度回调
+ * @param table - 当前表名
+ * @param rows - 当前表已处理的行数
+ */
+export type ProgressCallback = (table: string, rows: number) => void
+
+/**
+ * 创建向命令调用者报告进度的回调
+ * @param session - 会话对象
+ * @param action - 操作名称
+ * @returns 进度回调
+ */
+export function createProgress(session: Session, action: string): ProgressCallback {
+  let last = Date.now()
+  return (table, rows) => {
+    if (Date.now() - last < PROGRESS_INTERVAL) return
+    last = Date.now()
+    session.send(`${action}中: ${table} (${rows} 行)`).catch(() => {})
+  }
+}
+
+/**
+ * 按主键分页读取表数据
+ * 单一主键使用键集分页，复合主键按主键排序后使用偏移分页
+ * @param ctx - Koishi上下文
+ * @param table - 表名
+ * @param batchSize - 每批行数
+ * @param filter - 行过滤条件
+ * @returns 每批数据
+ */
+export async function* readTableBatches(ctx: Context, table: string, batchSize: number, filter: any = {}): AsyncGenerator<any[]> {
+  const keys = getPrimaryKeys(ctx, table)
+  const filtered = Object.keys(filter).length > 0
+  if (keys.length === 1) {
+    const [key] = keys
+    let last: any
+    while (true) {
+      const after = { [key]: { $gt: last } }
+      const query = last === undefined ? filter : filtered ? { $and: [filter, after] } : after
+      const rows = await ctx.database.get(table as any, query, { sort: { [key]: 'asc' }, limit: batchSize } as any)
+      if (rows.length) yield rows
+      if (rows.length < batchSize) return
+      last = rows[rows.length - 1][key]
+    }
+  }
+  const sort = Object.fromEntries(keys.map(key => [key, 'asc']))
+  for (let offset = 0; ; offset += batchSize) {
+    const rows = await ctx.database.get(table as any, filter, { sort, limit: batchSize, offset } as any)
+    if (rows.length) yield rows
+    if (rows.length < batchSize) return
+  }
+}
+
+/**
+ * 获取字段的类型名
+ * minato 解析后的字段类型为 Type 对象，清单中记录的为字符串
+ * @param field - 字段定义
+ * @returns 类型名，未知时为空字符串
+ */
+export function getFieldType(field: any): string {
+  const type = field?.type
+  return typeof type === 'string' ? type : type?.type ?? ''
+}
+
+/**
+ * 格式化文件大小
+ * @param bytes - 字节数
+ * @returns 带单位的大小
+ */
+export function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let index = 0;
+  while (bytes >= 1024 && index < units.length - 1) {
+    bytes /= 1024;
+    index++;
+  }
+  return `${index ? bytes.toFixed(1) : bytes}${units[index]}`;
+}
+
 /**
  * JSON内容解析工具，可自动转换日期字符串为Date对象
  * @param content - JSON字符串
@@ -154,3 +287,54 @@ export function parseJSONWithDates(content: string): any {
       new Date(value) : value;
   });
 }
+
+/**
+ * 差异项
+ */
+export interface DiffEntry {
+  path: string
+  type: 'added' | 'removed' | 'changed'
+  from?: any
+  to?: any
+}
+
+/**
+ * 深度比较两个值，列出新增、删除和修改的路径
+ * 数组与单值比较时将单值视为单元素数组（与 protobuf 重复字段的解码方式一致）
+ * @param a - 原值
+ * @param b - 新值
+ * @param path - 当前路径，对象键以`.`连接，数组下标以`[i]`表示
+ * @returns 差异列表
+ */
+export function diffObjects(a: any, b: any, path: string = ''): DiffEntry[] {
+  const isPlain = (value: any) => Object.prototype.toString.call(value) === '[object Object]' && typeof value.toJSON !== 'function'
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (a !== undefined && b !== undefined) {
+      const left = Array.isArray(a) ? a : [a]
+      const right = Array.isArray(b) ? b : [b]
+      const result: DiffEntry[] = []
+      for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const itemPath = `${path}[${i}]`
+        if (i >= left.length) result.push({ path: itemPath, type: 'added', to: right[i] })
+        else if (i >= right.length) result.push({ path: itemPath, type: 'removed', from: left[i] })
+        else result.push(...diffObjects(left[i], right[i], itemPath))
+      }
+      return result
+    }
+  } else if (isPlain(a) && isPlain(b)) {
+    const result: DiffEntry[] = []
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      const keyPath = path ? `${path}.${key}` : key
+      if (!(key in a)) result.push({ path: keyPath, type: 'added', to: b[key] })
+      else if (!(key in b)) result.push({ path: keyPath, type: 'removed', from: a[key] })
+      else result.push(...diffObjects(a[key], b[key], keyPath))
+    }
+    return result
+  }
+  const normalize = (value: any) => {
+    if (value instanceof Date) return `date:${value.getTime()}`
+    if (value instanceof Uint8Array || value instanceof ArrayBuffer) return `bytes:${Buffer.from(value as any).toString('hex')}`
+    return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? `bigint:${v}` : v)
+  }
+  return normalize(a) === normalize(b) ? [] : [{ path, type: 'changed', from: a, to: b }]
+}